@@ -0,0 +1,37 @@
+import type { ICredentialTestRequest, ICredentialType, INodeProperties } from 'n8n-workflow';
+
+export class BrowserbaseApi implements ICredentialType {
+	name = 'browserbaseApi';
+
+	displayName = 'Browserbase API';
+
+	documentationUrl = 'https://docs.browserbase.com/introduction/getting-started';
+
+	properties: INodeProperties[] = [
+		{
+			displayName: 'API Key',
+			name: 'apiKey',
+			type: 'string',
+			typeOptions: { password: true },
+			default: '',
+			required: true,
+		},
+		{
+			displayName: 'Project ID',
+			name: 'projectId',
+			type: 'string',
+			default: '',
+			required: true,
+		},
+	];
+
+	test: ICredentialTestRequest = {
+		request: {
+			baseURL: 'https://api.browserbase.com/v1',
+			url: '/projects',
+			headers: {
+				'X-BB-API-Key': '={{$credentials.apiKey}}',
+			},
+		},
+	};
+}
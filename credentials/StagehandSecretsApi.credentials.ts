@@ -0,0 +1,23 @@
+import type { ICredentialType, INodeProperties } from 'n8n-workflow';
+
+export class StagehandSecretsApi implements ICredentialType {
+	name = 'stagehandSecretsApi';
+
+	displayName = 'Stagehand Secrets API';
+
+	documentationUrl = 'https://docs.stagehand.dev/v3/basics/act';
+
+	properties: INodeProperties[] = [
+		{
+			displayName: 'Secrets',
+			name: 'secrets',
+			type: 'string',
+			typeOptions: { password: true },
+			default: '',
+			placeholder: '{"username": "jane@example.com", "password": "..."}',
+			description:
+				'JSON object mapping variable names to secret values. Reference them in instructions as %name%.',
+			required: true,
+		},
+	];
+}
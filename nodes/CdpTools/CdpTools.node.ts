@@ -11,6 +11,15 @@ import {
 	LLMClient,
 	Stagehand,
 } from '@browserbasehq/stagehand';
+import { existingSessionOption, getSessionProperties } from '../shared/descriptions';
+import { createNodeLogger, executionTraceOption, verboseOption, type VerboseLevel } from '../shared/logging';
+import {
+	BrowserSession,
+	closeSession,
+	createSession,
+	getSession,
+	touchSession,
+} from '../shared/sessions';
 
 export class CdpTools implements INodeType {
 	description: INodeTypeDescription = {
@@ -27,6 +36,21 @@ export class CdpTools implements INodeType {
 		outputs: [NodeConnectionType.Main],
 		usableAsTool: true,
 		properties: [
+			{
+				displayName: 'Browser Source',
+				name: 'browserSource',
+				type: 'options',
+				options: [
+					{
+						name: 'Connect via CDP',
+						value: 'cdp',
+						description: 'Connect to an already running browser through its CDP URL',
+					},
+					existingSessionOption,
+				],
+				default: 'cdp',
+				description: 'Where the inspected browser comes from',
+			},
 			{
 				displayName: 'CDP URL',
 				name: 'url',
@@ -35,6 +59,20 @@ export class CdpTools implements INodeType {
 				placeholder: 'ws://localhost:9222/devtools/browser/...',
 				description: 'Chrome DevTools Protocol URL to connect to the browser',
 				required: true,
+				displayOptions: {
+					show: {
+						browserSource: ['cdp'],
+					},
+				},
+			},
+			...getSessionProperties(),
+			{
+				displayName: 'Options',
+				name: 'options',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				options: [executionTraceOption, verboseOption],
 			},
 		],
 	};
@@ -43,9 +81,43 @@ export class CdpTools implements INodeType {
 		const items = this.getInputData();
 		const results: INodeExecutionData[] = [];
 
+		// Session started by an earlier item of this execution, reused by the following items
+		let startedSession: BrowserSession | undefined;
+		const sessionsToClose = new Set<string>();
+
 		for (let i = 0; i < items.length; i++) {
-			const cdpUrl = this.getNodeParameter('url', i, '') as string;
+			const browserSource = this.getNodeParameter('browserSource', i, 'cdp') as string;
+			const keepSessionOpen =
+				browserSource !== 'session' &&
+				(this.getNodeParameter('keepSessionOpen', i, false) as boolean);
 
+			let session: BrowserSession | undefined;
+			if (browserSource === 'session') {
+				session = getSession(this.getNodeParameter('sessionId', i) as string);
+				if (this.getNodeParameter('closeSession', i, false) as boolean) {
+					sessionsToClose.add(session.id);
+				}
+			} else if (keepSessionOpen) {
+				session = startedSession;
+				if (!session) {
+					// The tools connect on their own, so the session only remembers the browser endpoint
+					const idleTimeout = this.getNodeParameter('idleTimeout', i, 10) as number;
+					session = createSession(
+						this.getNodeParameter('url', i, '') as string,
+						idleTimeout * 60 * 1000,
+						{},
+					);
+					startedSession = session;
+				}
+			}
+
+			const cdpUrl = session ? session.cdpUrl : (this.getNodeParameter('url', i, '') as string);
+			const log = createNodeLogger.call(this, i, {
+				verbose: this.getNodeParameter('options.verbose', i, 0) as VerboseLevel,
+				trace: this.getNodeParameter('options.executionTrace', i, false) as boolean,
+			});
+
+			log.debug('Reading the accessibility tree', { cdpUrl });
 			let tree = await getAccessibilityTree(cdpUrl);
 			const nodesMap = await getNodesMap(cdpUrl, tree);
 			const matches = tree.matchAll(/\[((?:\d+-)?\d+)\] /g);
@@ -63,16 +135,28 @@ export class CdpTools implements INodeType {
 				j++;
 			}
 
+			log.info('Read the accessibility tree', { elements: xpaths.length });
+
 			results.push({
 				json: {
 					accessibilityTree: tree,
 					xpaths,
+					...(session ? { sessionId: session.id } : {}),
+					...(log.trace ? { trace: log.trace } : {}),
 				},
 			});
 
+			if (session) {
+				touchSession(session);
+			}
+
 			continue;
 		}
 
+		for (const sessionId of sessionsToClose) {
+			await closeSession(sessionId);
+		}
+
 		return [results];
 	}
 }
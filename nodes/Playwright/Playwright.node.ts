@@ -1,4 +1,5 @@
 import type {
+	IDataObject,
 	IExecuteFunctions,
 	INodeExecutionData,
 	INodeType,
@@ -6,7 +7,89 @@ import type {
 	JsonObject,
 } from 'n8n-workflow';
 import { ApplicationError, NodeApiError, NodeConnectionType } from 'n8n-workflow';
-import { Browser, chromium } from 'playwright';
+import { Browser, BrowserContext, CDPSession, chromium, Page } from 'playwright';
+import {
+	errorOutputProperty,
+	errorOutputs,
+	existingSessionOption,
+	getSessionProperties,
+} from '../shared/descriptions';
+import { getErrorDetails } from '../shared/errors';
+import {
+	createNodeLogger,
+	executionTraceOption,
+	redactUrls,
+	verboseOption,
+	type VerboseLevel,
+} from '../shared/logging';
+import {
+	exportStorageState,
+	getStorageStateImport,
+	getStorageStateImportProperties,
+	importStorageState,
+	toDomains,
+	type StorageBrowser,
+} from '../shared/storage';
+import {
+	attachNetwork,
+	getNetworkOptions,
+	hasNetworkOptions,
+	networkProperty,
+	type NetworkReport,
+	type NetworkSession,
+} from '../shared/network';
+import { getTabProperties, getTabSelection, listTabs, selectTab } from '../shared/tabs';
+import {
+	BrowserSession,
+	closeSession,
+	createSession,
+	getSession,
+	touchSession,
+} from '../shared/sessions';
+import { captureScreenshot, getPdfSettings, getScreenshotSettings, printToPdf } from './capture';
+import { classifyPlaywrightError } from './errors';
+import { evaluateScript, getEvaluation } from './evaluate';
+import { getElementRead, readElements } from './read';
+import { getSteps, runSteps, StepFailedError } from './steps';
+
+// Operations that read a value from every element matching the selector
+const READ_OPERATIONS = ['getAttribute', 'getHtml', 'getInputValue', 'getState', 'getText'];
+
+// Operations that can navigate, after importing a storage state
+const NAVIGATING_OPERATIONS = ['goto', 'openTab', 'runSteps'];
+
+// The CDP session as seen by the shared modules. CDPSession types its commands and events
+// by name, the modules send and listen to any.
+function toNetworkSession(cdp: CDPSession): NetworkSession {
+	return {
+		send: async <R>(method: string, params?: object) =>
+			(await (cdp.send as (method: string, params?: object) => Promise<unknown>).call(cdp, method, params)) as R,
+		on: (event, handler) => {
+			cdp.on(event as 'Fetch.requestPaused', handler as () => void);
+		},
+		off: (event, handler) => {
+			cdp.off(event as 'Fetch.requestPaused', handler as () => void);
+		},
+	};
+}
+
+// Give the storage state functions a CDP session to the browser for the time they run
+async function withStorageBrowser<T>(
+	browser: Browser,
+	context: BrowserContext,
+	run: (storage: StorageBrowser) => Promise<T>,
+): Promise<T> {
+	const cdp = await browser.newBrowserCDPSession();
+	try {
+		return await run({
+			send: toNetworkSession(cdp).send,
+			pages: context.pages(),
+			addInitScript: async (source) => await context.addInitScript(source),
+		});
+	} finally {
+		await cdp.detach();
+	}
+}
 
 export class Playwright implements INodeType {
 	description: INodeTypeDescription = {
@@ -21,7 +104,7 @@ export class Playwright implements INodeType {
 			name: 'Playwright',
 		},
 		inputs: [NodeConnectionType.Main],
-		outputs: [NodeConnectionType.Main],
+		outputs: errorOutputs,
 		usableAsTool: true,
 		properties: [
 			{
@@ -35,40 +118,124 @@ export class Playwright implements INodeType {
 						description: 'Click an element matching selector',
 						action: 'Click element',
 					},
+					{
+						name: 'Close Tab',
+						value: 'closeTab',
+						description: 'Close a browser tab',
+						action: 'Close a tab',
+					},
+					{
+						name: 'Count Matches',
+						value: 'count',
+						description: 'Count the elements matching a selector',
+						action: 'Count matching elements',
+					},
 					{
 						name: 'Evaluate JS',
 						value: 'evaluate',
 						description: 'Execute JavaScript in the page context',
 						action: 'Evaluate javascript',
 					},
+					{
+						name: 'Export Storage State',
+						value: 'exportStorageState',
+						description: 'Export the cookies and web storage of the browser, e.g. to reuse a login later',
+						action: 'Export storage state',
+					},
 					{
 						name: 'Fill',
 						value: 'fill',
 						description: 'Fill an input element',
 						action: 'Fill input',
 					},
+					{
+						name: 'Get Attribute',
+						value: 'getAttribute',
+						description: 'Get an attribute of the elements matching a selector',
+						action: 'Get an attribute',
+					},
+					{
+						name: 'Get Element State',
+						value: 'getState',
+						description: 'Get whether the elements matching a selector are visible, enabled or checked',
+						action: 'Get element state',
+					},
 					{
 						name: 'Get Executable Path',
 						value: 'executablePath',
 						description: 'Get the Chromium executable path',
 						action: 'Get executable path',
 					},
+					{
+						name: 'Get HTML',
+						value: 'getHtml',
+						description: 'Get the inner or outer HTML of the elements matching a selector',
+						action: 'Get HTML',
+					},
+					{
+						name: 'Get Input Value',
+						value: 'getInputValue',
+						description: 'Get the value of the inputs matching a selector',
+						action: 'Get input value',
+					},
+					{
+						name: 'Get Page Content',
+						value: 'getContent',
+						description: 'Get the HTML of the whole page',
+						action: 'Get page content',
+					},
+					{
+						name: 'Get Text',
+						value: 'getText',
+						description: 'Get the text of the elements matching a selector',
+						action: 'Get text',
+					},
+					{
+						name: 'Get Title and URL',
+						value: 'getPageInfo',
+						description: 'Get the title and URL of the page',
+						action: 'Get title and URL',
+					},
 					{
 						name: 'Goto',
 						value: 'goto',
 						description: 'Navigate to a specific URL',
 						action: 'Navigate to a URL',
 					},
+					{
+						name: 'List Tabs',
+						value: 'listTabs',
+						description: 'List the open browser tabs with their URLs and titles',
+						action: 'List tabs',
+					},
+					{
+						name: 'Open Tab',
+						value: 'openTab',
+						description: 'Open a new browser tab',
+						action: 'Open a tab',
+					},
 					{
 						name: 'Press',
 						value: 'press',
 						description: 'Press a key on an element',
 						action: 'Press key',
 					},
+					{
+						name: 'Print to PDF',
+						value: 'printToPdf',
+						description: 'Render the page as a PDF document. Needs a headless browser.',
+						action: 'Print to PDF',
+					},
+					{
+						name: 'Run Steps',
+						value: 'runSteps',
+						description: 'Run a list of steps in order on one connection to the browser',
+						action: 'Run steps',
+					},
 					{
 						name: 'Screenshot',
 						value: 'screenshot',
-						description: 'Capture a page screenshot',
+						description: 'Capture the page, a region of it or an element as an image',
 						action: 'Capture a screenshot',
 					},
 					{
@@ -77,6 +244,12 @@ export class Playwright implements INodeType {
 						description: 'Select an option in a dropdown',
 						action: 'Select option',
 					},
+					{
+						name: 'Switch Tab',
+						value: 'switchTab',
+						description: 'Bring a browser tab to the front',
+						action: 'Switch tab',
+					},
 					{
 						name: 'Type',
 						value: 'type',
@@ -104,6 +277,26 @@ export class Playwright implements INodeType {
 				],
 				default: 'executablePath',
 			},
+			{
+				displayName: 'Browser Source',
+				name: 'browserSource',
+				type: 'options',
+				options: [
+					{
+						name: 'Connect via CDP',
+						value: 'cdp',
+						description: 'Connect to an already running browser through its CDP URL',
+					},
+					existingSessionOption,
+				],
+				default: 'cdp',
+				description: 'Where the browser controlled by Playwright comes from',
+				displayOptions: {
+					hide: {
+						operation: ['executablePath'],
+					},
+				},
+			},
 			{
 				displayName: 'CDP URL',
 				name: 'cdpUrl',
@@ -113,11 +306,17 @@ export class Playwright implements INodeType {
 				description: 'Chrome DevTools Protocol URL to connect to the browser',
 				required: true,
 				displayOptions: {
+					show: {
+						browserSource: ['cdp'],
+					},
 					hide: {
 						operation: ['executablePath'],
 					},
 				},
 			},
+			...getSessionProperties({ operation: ['executablePath'] }),
+			...getTabProperties({ operation: ['executablePath', 'exportStorageState', 'listTabs', 'openTab'] }),
+			...getStorageStateImportProperties({ show: { operation: NAVIGATING_OPERATIONS } }),
 			// GOTO operation
 			{
 				displayName: 'URL',
@@ -133,13 +332,101 @@ export class Playwright implements INodeType {
 					},
 				},
 			},
+			// EXPORT STORAGE STATE operation
+			{
+				displayName: 'Domains',
+				name: 'storageStateDomains',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g. example.com, login.example.org',
+				description:
+					'Comma-separated domains to export the cookies and web storage of, with their subdomains. Leave empty to export everything.',
+				displayOptions: {
+					show: {
+						operation: ['exportStorageState'],
+					},
+				},
+			},
+			{
+				displayName: 'Output As',
+				name: 'storageStateOutput',
+				type: 'options',
+				options: [
+					{
+						name: 'JSON',
+						value: 'json',
+						description: 'In the storageState field of the output item',
+					},
+					{
+						name: 'Binary File',
+						value: 'binary',
+						description: 'As a JSON file in the storageState binary field',
+					},
+				],
+				default: 'json',
+				displayOptions: {
+					show: {
+						operation: ['exportStorageState'],
+					},
+				},
+			},
+			// OPEN TAB operation
+			{
+				displayName: 'URL',
+				name: 'url',
+				type: 'string',
+				default: '',
+				placeholder: 'https://example.com',
+				description: 'URL to open in the new tab. Leave empty for a blank tab.',
+				displayOptions: {
+					show: {
+						operation: ['openTab'],
+					},
+				},
+			},
 			// SCREENSHOT operation
+			{
+				displayName: 'Element Selector',
+				name: 'screenshotSelector',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g. css=#invoice',
+				description: 'Playwright selector of an element to capture on its own. Leave empty to capture the page.',
+				displayOptions: {
+					show: {
+						operation: ['screenshot'],
+					},
+				},
+			},
 			{
 				displayName: 'Full Page',
 				name: 'fullPage',
 				type: 'boolean',
 				default: false,
-				description: 'Whether to capture the full page instead of just the viewport',
+				description:
+					'Whether to capture the full page instead of just the viewport. Ignored when capturing an element.',
+				displayOptions: {
+					show: {
+						operation: ['screenshot'],
+					},
+				},
+			},
+			{
+				displayName: 'Format',
+				name: 'screenshotFormat',
+				type: 'options',
+				options: [
+					{
+						name: 'JPEG',
+						value: 'jpeg',
+					},
+					{
+						name: 'PNG',
+						value: 'png',
+					},
+				],
+				default: 'jpeg',
+				description: 'Image format of the screenshot',
 				displayOptions: {
 					show: {
 						operation: ['screenshot'],
@@ -155,12 +442,217 @@ export class Playwright implements INodeType {
 					minValue: 0,
 					maxValue: 100,
 				},
-				description: 'Screenshot quality (0-100, JPEG only)',
+				description: 'Screenshot quality (0-100)',
 				displayOptions: {
 					show: {
 						operation: ['screenshot'],
+						screenshotFormat: ['jpeg'],
+					},
+				},
+			},
+			{
+				displayName: 'Screenshot Options',
+				name: 'screenshotOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				displayOptions: {
+					show: {
+						operation: ['screenshot'],
+					},
+				},
+				options: [
+					{
+						displayName: 'Clip Region',
+						name: 'clip',
+						type: 'fixedCollection',
+						placeholder: 'Add Region',
+						default: {},
+						description: 'Area of the page to capture, in pixels from its top left corner. Ignored when capturing an element.',
+						options: [
+							{
+								displayName: 'Region',
+								name: 'region',
+								values: [
+									{
+										displayName: 'X',
+										name: 'x',
+										type: 'number',
+										default: 0,
+									},
+									{
+										displayName: 'Y',
+										name: 'y',
+										type: 'number',
+										default: 0,
+									},
+									{
+										displayName: 'Width',
+										name: 'width',
+										type: 'number',
+										typeOptions: {
+											minValue: 1,
+										},
+										default: 800,
+									},
+									{
+										displayName: 'Height',
+										name: 'height',
+										type: 'number',
+										typeOptions: {
+											minValue: 1,
+										},
+										default: 600,
+									},
+								],
+							},
+						],
+					},
+					{
+						displayName: 'Hide Elements',
+						name: 'hide',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g. .cookie-banner, #chat-widget',
+						description: 'CSS selectors of elements to make invisible during the capture. The page keeps its layout.',
+					},
+					{
+						displayName: 'Mask Color',
+						name: 'maskColor',
+						type: 'color',
+						default: '#FF00FF',
+						description: 'Color of the boxes covering masked elements',
+					},
+					{
+						displayName: 'Mask Elements',
+						name: 'mask',
+						type: 'string',
+						default: '',
+						typeOptions: {
+							rows: 3,
+						},
+						placeholder: 'e.g. css=.account-number',
+						description: 'Playwright selectors, one per line, of elements to cover with a box, e.g. personal data',
+					},
+				],
+			},
+			// PRINT TO PDF operation
+			{
+				displayName: 'Paper Format',
+				name: 'paperFormat',
+				type: 'options',
+				options: [
+					{
+						name: 'A3',
+						value: 'A3',
+					},
+					{
+						name: 'A4',
+						value: 'A4',
+					},
+					{
+						name: 'A5',
+						value: 'A5',
+					},
+					{
+						name: 'Legal',
+						value: 'Legal',
+					},
+					{
+						name: 'Letter',
+						value: 'Letter',
+					},
+					{
+						name: 'Tabloid',
+						value: 'Tabloid',
+					},
+				],
+				default: 'A4',
+				displayOptions: {
+					show: {
+						operation: ['printToPdf'],
+					},
+				},
+			},
+			{
+				displayName: 'PDF Options',
+				name: 'pdfOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				displayOptions: {
+					show: {
+						operation: ['printToPdf'],
 					},
 				},
+				options: [
+					{
+						displayName: 'Landscape',
+						name: 'landscape',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to print in landscape orientation',
+					},
+					{
+						displayName: 'Margin Bottom',
+						name: 'bottomMargin',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g. 1cm',
+						description: 'Bottom margin, with a unit of px, in, cm or mm',
+					},
+					{
+						displayName: 'Margin Left',
+						name: 'leftMargin',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g. 1cm',
+						description: 'Left margin, with a unit of px, in, cm or mm',
+					},
+					{
+						displayName: 'Margin Right',
+						name: 'rightMargin',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g. 1cm',
+						description: 'Right margin, with a unit of px, in, cm or mm',
+					},
+					{
+						displayName: 'Margin Top',
+						name: 'topMargin',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g. 1cm',
+						description: 'Top margin, with a unit of px, in, cm or mm',
+					},
+					{
+						displayName: 'Page Ranges',
+						name: 'pageRanges',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g. 1-3, 5',
+						description: 'Pages to print. Leave empty to print all of them.',
+					},
+					{
+						displayName: 'Print Background',
+						name: 'printBackground',
+						type: 'boolean',
+						default: true,
+						description: 'Whether to print background colors and images',
+					},
+					{
+						displayName: 'Scale',
+						name: 'scale',
+						type: 'number',
+						typeOptions: {
+							minValue: 0.1,
+							maxValue: 2,
+							numberPrecision: 2,
+						},
+						default: 1,
+						description: 'Zoom of the page when printed, from 0.1 to 2',
+					},
+				],
 			},
 			// COMMON selector
 			{
@@ -173,7 +665,112 @@ export class Playwright implements INodeType {
 				required: true,
 				displayOptions: {
 					show: {
-						operation: ['click', 'fill', 'type', 'press', 'selectOption', 'waitForSelector'],
+						operation: [
+							'click',
+							'count',
+							'fill',
+							'getAttribute',
+							'getHtml',
+							'getInputValue',
+							'getState',
+							'getText',
+							'press',
+							'selectOption',
+							'type',
+							'waitForSelector',
+						],
+					},
+				},
+			},
+			// READ operations
+			{
+				displayName: 'Attribute Name',
+				name: 'attributeName',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g. href',
+				description: 'Name of the attribute to get. Elements without it give null.',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['getAttribute'],
+					},
+				},
+			},
+			{
+				displayName: 'HTML',
+				name: 'htmlType',
+				type: 'options',
+				options: [
+					{
+						name: 'Inner HTML',
+						value: 'inner',
+						description: 'HTML of the content of the element',
+					},
+					{
+						name: 'Outer HTML',
+						value: 'outer',
+						description: 'HTML of the element, including its own tag',
+					},
+				],
+				default: 'inner',
+				displayOptions: {
+					show: {
+						operation: ['getHtml'],
+					},
+				},
+			},
+			{
+				displayName: 'State',
+				name: 'elementState',
+				type: 'options',
+				options: [
+					{
+						name: 'Checked',
+						value: 'checked',
+						description: 'Whether the checkbox or radio button is checked',
+					},
+					{
+						name: 'Enabled',
+						value: 'enabled',
+						description: 'Whether the element is not disabled',
+					},
+					{
+						name: 'Visible',
+						value: 'visible',
+						description: 'Whether the element is rendered and not hidden',
+					},
+				],
+				default: 'visible',
+				displayOptions: {
+					show: {
+						operation: ['getState'],
+					},
+				},
+			},
+			{
+				displayName: 'Wait for a Match',
+				name: 'waitForMatch',
+				type: 'boolean',
+				default: true,
+				description:
+					'Whether to wait until an element matches the selector, failing after the timeout. When off, nothing is read if no element matches yet.',
+				displayOptions: {
+					show: {
+						operation: READ_OPERATIONS,
+					},
+				},
+			},
+			{
+				displayName: 'One Item Per Element',
+				name: 'splitElements',
+				type: 'boolean',
+				default: false,
+				description:
+					'Whether to output an item for each matching element instead of one item with the values of all of them',
+				displayOptions: {
+					show: {
+						operation: READ_OPERATIONS,
 					},
 				},
 			},
@@ -262,12 +859,37 @@ export class Playwright implements INodeType {
 				},
 			},
 			// EVALUATE operation
+			{
+				displayName: 'Script Type',
+				name: 'scriptType',
+				type: 'options',
+				options: [
+					{
+						name: 'Expression',
+						value: 'expression',
+						description: 'The result is the value of the script, or of its last statement',
+					},
+					{
+						name: 'Function Body',
+						value: 'function',
+						description: 'The result is what the script returns. The script can use await.',
+					},
+				],
+				default: 'expression',
+				displayOptions: {
+					show: {
+						operation: ['evaluate'],
+					},
+				},
+			},
 			{
 				displayName: 'Script',
 				name: 'script',
 				type: 'string',
 				default: '',
-				description: 'JavaScript code to execute in the browser context',
+				placeholder: 'e.g. document.title',
+				description:
+					'JavaScript code to execute in the browser context. It can read the arguments as <code>args</code>, and the element as <code>element</code> and its position as <code>index</code> when run per element. The result is added to the output as JSON: elements and functions become descriptions and promises are awaited.',
 				required: true,
 				typeOptions: {
 					rows: 5,
@@ -278,6 +900,60 @@ export class Playwright implements INodeType {
 					},
 				},
 			},
+			{
+				displayName: 'Arguments',
+				name: 'scriptArguments',
+				type: 'json',
+				default: '{}',
+				description: 'JSON value passed to the script as <code>args</code>, e.g. an expression of fields of the item',
+				displayOptions: {
+					show: {
+						operation: ['evaluate'],
+					},
+				},
+			},
+			{
+				displayName: 'Run Per Element Of',
+				name: 'scriptSelector',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g. css=table tr',
+				description:
+					'Playwright selector of elements to run the script on one by one, giving an array of results. Leave empty to run it once for the page.',
+				displayOptions: {
+					show: {
+						operation: ['evaluate'],
+					},
+				},
+			},
+			// RUN STEPS operation
+			{
+				displayName: 'Steps',
+				name: 'steps',
+				type: 'json',
+				default:
+					'[\n  { "action": "goto", "url": "https://example.com/login" },\n  { "action": "fill", "selector": "#email", "value": "user@example.com" },\n  { "action": "click", "selector": "button[type=submit]" },\n  { "action": "wait", "state": "load" },\n  { "action": "evaluate", "script": "document.title", "saveAs": "title" }\n]',
+				description:
+					'JSON array of steps, or an expression giving one. Each step has an action and its fields: goto a URL, click a selector, fill and select a selector with a value, press a key on a selector, wait for a selector, load state or duration, and evaluate a script, with optional scriptType, args and saveAs. Any step can set a name, a timeout and continueOnError.',
+				required: true,
+				typeOptions: {
+					rows: 10,
+				},
+				displayOptions: {
+					show: {
+						operation: ['runSteps'],
+					},
+				},
+			},
+			{
+				...networkProperty,
+				displayOptions: {
+					hide: {
+						operation: ['executablePath'],
+					},
+				},
+			},
+			errorOutputProperty,
 			// ADVANCED OPTIONS
 			{
 				displayName: 'Advanced Options',
@@ -287,6 +963,7 @@ export class Playwright implements INodeType {
 				default: {},
 				description: 'Advanced options for Playwright actions',
 				options: [
+					executionTraceOption,
 					{
 						displayName: 'Timeout (Ms)',
 						name: 'timeout',
@@ -297,6 +974,7 @@ export class Playwright implements INodeType {
 						},
 						description: 'Maximum time to wait for the operation to complete',
 					},
+					verboseOption,
 				],
 			},
 		],
@@ -305,211 +983,541 @@ export class Playwright implements INodeType {
 	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
 		const items = this.getInputData();
 		const results: INodeExecutionData[] = [];
+		const errorOutput = this.getNodeParameter('errorOutput', 0, false) as boolean;
+		// Failed items, when they go to the Error output
+		const failedItems: INodeExecutionData[] = [];
 
-		for (let i = 0; i < items.length; i++) {
-			const operation = this.getNodeParameter('operation', i) as string;
-
-			if (operation === 'executablePath') {
-				results.push({
-					json: {
-						operation,
-						result: chromium.executablePath(),
-					},
-				});
-				continue;
-			}
+		// Session started by an earlier item of this execution, reused by the following items
+		let startedSession: BrowserSession | undefined;
+		const sessionsToClose = new Set<string>();
 
-			// For other operations, connect to browser
-			const cdpUrl = this.getNodeParameter('cdpUrl', i, '') as string;
-			const timeout = this.getNodeParameter('options.timeout', i, 30000) as number;
-			let browser: Browser;
-			try {
-				browser = await chromium.connectOverCDP(cdpUrl);
-			} catch (error: unknown) {
-				if (!this.continueOnFail()) {
-					throw error;
-				}
+		try {
+			for (let i = 0; i < items.length; i++) {
+				const operation = this.getNodeParameter('operation', i) as string;
 
-				if (error instanceof Error) {
+				if (operation === 'executablePath') {
 					results.push({
-						json: { error },
+						json: {
+							operation,
+							result: chromium.executablePath(),
+						},
+						pairedItem: { item: i },
 					});
 					continue;
 				}
-				throw error;
-			}
-			const context = browser.contexts()[0] ?? (await browser.newContext());
-			const page = context.pages()[0] ?? (await context.newPage());
-
-			try {
-				switch (operation) {
-					case 'goto': {
-						const url = this.getNodeParameter('url', i, '') as string;
 
-						await page.goto(url, { timeout });
+				// For other operations, connect to browser or reuse the session's connection
+				const browserSource = this.getNodeParameter('browserSource', i, 'cdp') as string;
+				const keepSessionOpen =
+					browserSource !== 'session' &&
+					(this.getNodeParameter('keepSessionOpen', i, false) as boolean);
+				const timeout = this.getNodeParameter('options.timeout', i, 30000) as number;
+				const log = createNodeLogger.call(this, i, {
+					verbose: this.getNodeParameter('options.verbose', i, 0) as VerboseLevel,
+					trace: this.getNodeParameter('options.executionTrace', i, false) as boolean,
+				});
+				let session: BrowserSession | undefined;
+				let browser: Browser;
+				try {
+					if (browserSource === 'session') {
+						session = getSession(this.getNodeParameter('sessionId', i) as string);
+						if (this.getNodeParameter('closeSession', i, false) as boolean) {
+							sessionsToClose.add(session.id);
+						}
+					} else if (keepSessionOpen) {
+						session = startedSession;
+					}
 
-						results.push({
-							json: {
-								operation,
-							},
+					if (session) {
+						if (!session.playwright?.isConnected()) {
+							log.debug('Connecting to the session browser', { sessionId: session.id, cdpUrl: session.cdpUrl });
+							session.playwright = await chromium.connectOverCDP(session.cdpUrl);
+						}
+						browser = session.playwright;
+					} else {
+						const cdpUrl = this.getNodeParameter('cdpUrl', i, '') as string;
+						log.debug('Connecting to the browser', { cdpUrl });
+						browser = await chromium.connectOverCDP(cdpUrl);
+						if (keepSessionOpen) {
+							const idleTimeout = this.getNodeParameter('idleTimeout', i, 10) as number;
+							session = createSession(cdpUrl, idleTimeout * 60 * 1000, { playwright: browser });
+							startedSession = session;
+						}
+					}
+				} catch (error: unknown) {
+					const code = classifyPlaywrightError(error);
+					log.error('Could not connect to the browser', { code, error: (error as Error).message });
+					if (!errorOutput && !this.continueOnFail()) {
+						throw new NodeApiError(this.getNode(), error as JsonObject, {
+							message: `Could not connect to the browser: ${redactUrls((error as Error).message)}`,
+							description: `Error code: ${code}`,
+							itemIndex: i,
 						});
-						break;
 					}
 
-					case 'screenshot': {
-						const fullPage = this.getNodeParameter('fullPage', i, false) as boolean;
-						const quality = this.getNodeParameter('quality', i, 80) as number;
+					(errorOutput ? failedItems : results).push({
+						json: {
+							operation,
+							error: getErrorDetails(error, code),
+							...(log.trace ? { trace: log.trace } : {}),
+						},
+						pairedItem: { item: i },
+					});
+					continue;
+				}
+				const context = browser.contexts()[0] ?? (await browser.newContext());
+				let page: Page | undefined;
+				// Session of the page for the network options, when any is set
+				let networkSession: CDPSession | undefined;
+				let detachNetwork: (() => Promise<NetworkReport>) | undefined;
 
-						const screenshot = await page.screenshot({
-							fullPage,
-							quality,
-							type: 'jpeg',
-							timeout,
-						});
+				// Items this input item adds, which all get the shared data below
+				const firstResult = results.length;
+				try {
+					page =
+						operation === 'openTab'
+							? await context.newPage()
+							: await selectTab(context.pages(), getTabSelection.call(this, i), async () => await context.newPage());
+					log.info('Running Playwright operation', { operation, url: page.url() });
 
-						results.push({
-							binary: {
-								screenshot: await this.helpers.prepareBinaryData(
-									Buffer.from(screenshot),
-									'screenshot.jpg',
-									'image/jpeg',
-								),
-							},
-							json: {
-								operation,
-							},
-						});
-						break;
+					const network = getNetworkOptions.call(this, i);
+					if (hasNetworkOptions(network)) {
+						networkSession = await context.newCDPSession(page);
+						detachNetwork = await attachNetwork(toNetworkSession(networkSession), network, log);
 					}
 
-					case 'click': {
-						const selector = this.getNodeParameter('selector', i, '') as string;
+					const storageState = NAVIGATING_OPERATIONS.includes(operation)
+						? await getStorageStateImport.call(this, i)
+						: undefined;
+					if (storageState) {
+						const imported = await withStorageBrowser(
+							browser,
+							context,
+							async (storage) => await importStorageState(storage, storageState),
+						);
+						log.info('Imported the storage state', imported);
+					}
 
-						await page.click(selector, { timeout });
+					switch (operation) {
+						case 'goto': {
+							const url = this.getNodeParameter('url', i, '') as string;
 
-						results.push({
-							json: {
-								operation,
-							},
-						});
-						break;
-					}
+							await page.goto(url, { timeout });
 
-					case 'fill':
-					case 'type': {
-						const selector = this.getNodeParameter('selector', i, '') as string;
-						const text = this.getNodeParameter('text', i, '') as string;
+							results.push({
+								json: {
+									operation,
+									...(session ? { sessionId: session.id } : {}),
+								},
+								pairedItem: { item: i },
+							});
+							break;
+						}
 
-						await page.fill(selector, text, { timeout });
+						case 'screenshot':
+						case 'printToPdf': {
+							const capture =
+								operation === 'screenshot'
+									? await captureScreenshot(page, getScreenshotSettings.call(this, i), timeout)
+									: await printToPdf(page, getPdfSettings.call(this, i));
 
-						results.push({
-							json: {
-								operation,
-							},
-						});
-						break;
-					}
+							results.push({
+								binary: {
+									[operation === 'screenshot' ? 'screenshot' : 'pdf']: await this.helpers.prepareBinaryData(
+										capture.data,
+										capture.fileName,
+										capture.mimeType,
+									),
+								},
+								json: {
+									operation,
+									...(session ? { sessionId: session.id } : {}),
+								},
+							});
+							break;
+						}
 
-					case 'selectOption': {
-						const selector = this.getNodeParameter('selector', i, '') as string;
-						const value = this.getNodeParameter('value', i, '') as string;
+						case 'click': {
+							const selector = this.getNodeParameter('selector', i, '') as string;
 
-						await page.selectOption(selector, value, { timeout });
+							await page.click(selector, { timeout });
 
-						results.push({
-							json: {
-								operation,
-							},
-						});
-						break;
-					}
+							results.push({
+								json: {
+									operation,
+									...(session ? { sessionId: session.id } : {}),
+								},
+								pairedItem: { item: i },
+							});
+							break;
+						}
 
-					case 'press': {
-						const selector = this.getNodeParameter('selector', i, '') as string;
-						const key = this.getNodeParameter('key', i, 'Enter') as string;
+						case 'fill':
+						case 'type': {
+							const selector = this.getNodeParameter('selector', i, '') as string;
+							const text = this.getNodeParameter('text', i, '') as string;
 
-						await page.press(selector, key, { timeout });
+							await page.fill(selector, text, { timeout });
 
-						results.push({
-							json: {
-								operation,
-							},
-						});
-						break;
-					}
+							results.push({
+								json: {
+									operation,
+									...(session ? { sessionId: session.id } : {}),
+								},
+								pairedItem: { item: i },
+							});
+							break;
+						}
 
-					case 'waitForTimeout': {
-						const duration = this.getNodeParameter('duration', i, 1000) as number;
+						case 'selectOption': {
+							const selector = this.getNodeParameter('selector', i, '') as string;
+							const value = this.getNodeParameter('value', i, '') as string;
 
-						await page.waitForTimeout(duration);
+							await page.selectOption(selector, value, { timeout });
 
-						results.push({
-							json: {
-								operation,
-							},
-						});
-						break;
-					}
+							results.push({
+								json: {
+									operation,
+									...(session ? { sessionId: session.id } : {}),
+								},
+								pairedItem: { item: i },
+							});
+							break;
+						}
 
-					case 'waitForSelector': {
-						const selector = this.getNodeParameter('selector', i, '') as string;
+						case 'press': {
+							const selector = this.getNodeParameter('selector', i, '') as string;
+							const key = this.getNodeParameter('key', i, 'Enter') as string;
 
-						await page.waitForSelector(selector, { timeout });
+							await page.press(selector, key, { timeout });
 
-						results.push({
-							json: {
-								operation,
-							},
-						});
-						break;
-					}
+							results.push({
+								json: {
+									operation,
+									...(session ? { sessionId: session.id } : {}),
+								},
+								pairedItem: { item: i },
+							});
+							break;
+						}
+
+						case 'waitForTimeout': {
+							const duration = this.getNodeParameter('duration', i, 1000) as number;
 
-					case 'waitForLoadState': {
-						const state = this.getNodeParameter('state', i, 'load') as string;
+							await page.waitForTimeout(duration);
 
-						if (state !== 'load' && state !== 'domcontentloaded' && state !== 'networkidle') {
-							throw new ApplicationError(`Unsupported load state: ${state}`);
+							results.push({
+								json: {
+									operation,
+									...(session ? { sessionId: session.id } : {}),
+								},
+								pairedItem: { item: i },
+							});
+							break;
 						}
 
-						await page.waitForLoadState(state, { timeout });
+						case 'waitForSelector': {
+							const selector = this.getNodeParameter('selector', i, '') as string;
 
-						results.push({
-							json: {
-								operation,
-							},
-						});
-						break;
-					}
+							await page.waitForSelector(selector, { timeout });
+
+							results.push({
+								json: {
+									operation,
+									...(session ? { sessionId: session.id } : {}),
+								},
+								pairedItem: { item: i },
+							});
+							break;
+						}
 
-					case 'evaluate': {
-						const script = this.getNodeParameter('script', i, '') as string;
+						case 'waitForLoadState': {
+							const state = this.getNodeParameter('state', i, 'load') as string;
 
-						await page.evaluate(script, { timeout });
+							if (state !== 'load' && state !== 'domcontentloaded' && state !== 'networkidle') {
+								throw new ApplicationError(`Unsupported load state: ${state}`);
+							}
 
-						results.push({
-							json: {
-								operation,
-							},
-						});
-						break;
+							await page.waitForLoadState(state, { timeout });
+
+							results.push({
+								json: {
+									operation,
+									...(session ? { sessionId: session.id } : {}),
+								},
+								pairedItem: { item: i },
+							});
+							break;
+						}
+
+						case 'evaluate': {
+							const evaluation = await evaluateScript(page, getEvaluation.call(this, i), timeout);
+
+							results.push({
+								json: {
+									operation,
+									...(evaluation as IDataObject),
+									...(session ? { sessionId: session.id } : {}),
+								},
+								pairedItem: { item: i },
+							});
+							break;
+						}
+
+						case 'runSteps': {
+							const report = await runSteps(page, getSteps.call(this, i), timeout, log);
+
+							results.push({
+								json: {
+									operation,
+									...(report as unknown as IDataObject),
+									...(session ? { sessionId: session.id } : {}),
+								},
+								pairedItem: { item: i },
+							});
+							break;
+						}
+
+						case 'count': {
+							const selector = this.getNodeParameter('selector', i, '') as string;
+
+							results.push({
+								json: {
+									operation,
+									count: await page.locator(selector).count(),
+									...(session ? { sessionId: session.id } : {}),
+								},
+								pairedItem: { item: i },
+							});
+							break;
+						}
+
+						case 'getAttribute':
+						case 'getHtml':
+						case 'getInputValue':
+						case 'getState':
+						case 'getText': {
+							const values = await readElements(page, getElementRead.call(this, i, operation), timeout);
+
+							// Without matches there is no element to output, but still an item
+							if (values.length > 0 && (this.getNodeParameter('splitElements', i, false) as boolean)) {
+								for (const [index, value] of values.entries()) {
+									results.push({
+										json: {
+											operation,
+											index,
+											value,
+											...(session ? { sessionId: session.id } : {}),
+										},
+										pairedItem: { item: i },
+									});
+								}
+								break;
+							}
+
+							results.push({
+								json: {
+									operation,
+									count: values.length,
+									values,
+									...(session ? { sessionId: session.id } : {}),
+								},
+								pairedItem: { item: i },
+							});
+							break;
+						}
+
+						case 'getContent': {
+							results.push({
+								json: {
+									operation,
+									url: page.url(),
+									content: await page.content(),
+									...(session ? { sessionId: session.id } : {}),
+								},
+								pairedItem: { item: i },
+							});
+							break;
+						}
+
+						case 'getPageInfo': {
+							results.push({
+								json: {
+									operation,
+									title: await page.title(),
+									url: page.url(),
+									...(session ? { sessionId: session.id } : {}),
+								},
+								pairedItem: { item: i },
+							});
+							break;
+						}
+
+						case 'exportStorageState': {
+							const domains = toDomains(this.getNodeParameter('storageStateDomains', i, '') as string);
+							const state = await withStorageBrowser(
+								browser,
+								context,
+								async (storage) => await exportStorageState(storage, domains),
+							);
+
+							if ((this.getNodeParameter('storageStateOutput', i, 'json') as string) === 'binary') {
+								results.push({
+									binary: {
+										storageState: await this.helpers.prepareBinaryData(
+											Buffer.from(JSON.stringify(state, null, 2)),
+											'storage-state.json',
+											'application/json',
+										),
+									},
+									json: {
+										operation,
+										cookies: state.cookies.length,
+										origins: state.origins.length,
+										...(session ? { sessionId: session.id } : {}),
+									},
+								});
+								break;
+							}
+
+							results.push({
+								json: {
+									operation,
+									storageState: state as unknown as IDataObject,
+									...(session ? { sessionId: session.id } : {}),
+								},
+								pairedItem: { item: i },
+							});
+							break;
+						}
+
+						case 'listTabs': {
+							results.push({
+								json: {
+									operation,
+									...(session ? { sessionId: session.id } : {}),
+								},
+								pairedItem: { item: i },
+							});
+							break;
+						}
+
+						case 'openTab': {
+							const url = this.getNodeParameter('url', i, '') as string;
+
+							if (url) {
+								await page.goto(url, { timeout });
+							}
+
+							results.push({
+								json: {
+									operation,
+									url: page.url(),
+									...(session ? { sessionId: session.id } : {}),
+								},
+								pairedItem: { item: i },
+							});
+							break;
+						}
+
+						case 'switchTab': {
+							await page.bringToFront();
+
+							results.push({
+								json: {
+									operation,
+									url: page.url(),
+									...(session ? { sessionId: session.id } : {}),
+								},
+								pairedItem: { item: i },
+							});
+							break;
+						}
+
+						case 'closeTab': {
+							const url = page.url();
+
+							await page.close();
+
+							results.push({
+								json: {
+									operation,
+									url,
+									...(session ? { sessionId: session.id } : {}),
+								},
+								pairedItem: { item: i },
+							});
+							break;
+						}
+
+						default: {
+							throw new ApplicationError(`Unsupported operation: ${operation}`);
+						}
 					}
 
-					default: {
-						throw new ApplicationError(`Unsupported operation: ${operation}`);
+					// Listing the open tabs lets later nodes pick the one to work on
+					let networkReport: NetworkReport | undefined;
+					if (detachNetwork) {
+						networkReport = await detachNetwork();
+						detachNetwork = undefined;
 					}
-				}
-			} catch (error: unknown) {
-				if (error instanceof Error) {
-					throw new NodeApiError(this.getNode(), error as unknown as JsonObject, {
-						message: `Operation "${operation}" failed: ${error.message}`,
-						description: error.stack,
+					const tabs = await listTabs(context.pages(), operation === 'listTabs' ? undefined : page);
+					log.debug('Playwright operation finished', { operation, url: page.isClosed() ? undefined : page.url() });
+					// Split results carry the shared data on each of their items
+					for (const item of results.slice(firstResult)) {
+						if (networkReport) {
+							item.json.network = networkReport as unknown as IDataObject;
+						}
+						item.json.tabs = tabs;
+						if (log.trace) {
+							item.json.trace = log.trace;
+						}
+					}
+				} catch (error: unknown) {
+					const code = classifyPlaywrightError(error);
+					log.error('Playwright operation failed', { operation, code, error: (error as Error).message });
+					// What was captured before the failure helps to find its cause
+					const networkReport = await detachNetwork?.().catch(() => undefined);
+					if (!errorOutput && !this.continueOnFail()) {
+						throw new NodeApiError(this.getNode(), error as JsonObject, {
+							message: `Operation "${operation}" failed: ${redactUrls((error as Error).message)}`,
+							description: `Error code: ${code}`,
+							itemIndex: i,
+						});
+					}
+
+					(errorOutput ? failedItems : results).push({
+						json: {
+							operation,
+							error: getErrorDetails(error, code, {
+								url: page?.url(),
+								lastSuccessfulStep: error instanceof StepFailedError ? error.lastSuccessfulStep : undefined,
+							}),
+							// The steps that ran before the failed one, and their values
+							...(error instanceof StepFailedError ? (error.report as unknown as IDataObject) : {}),
+							...(networkReport ? { network: networkReport as unknown as IDataObject } : {}),
+							...(session ? { sessionId: session.id } : {}),
+							...(log.trace ? { trace: log.trace } : {}),
+						},
+						pairedItem: { item: i },
 					});
+				} finally {
+					// The page may be closed already
+					await networkSession?.detach().catch(() => {});
+					if (session) {
+						touchSession(session);
+					} else {
+						await browser.close();
+					}
 				}
-			} finally {
-				await browser.close();
+			}
+		} finally {
+			// Also when an item stopped the execution
+			for (const sessionId of sessionsToClose) {
+				await closeSession(sessionId);
 			}
 		}
 
-		return [results];
+		return errorOutput ? [results, failedItems] : [results];
 	}
 }
@@ -0,0 +1,120 @@
+import type { IExecuteFunctions } from 'n8n-workflow';
+import type { Page } from 'playwright';
+
+export type ScreenshotSettings = {
+	format: 'jpeg' | 'png';
+	quality: number;
+	fullPage: boolean;
+	// Capture only the first element matching it, when set
+	selector: string;
+	clip?: { x: number; y: number; width: number; height: number };
+	// CSS selectors of elements made invisible, keeping the layout
+	hide: string;
+	// Playwright selectors, one per line, of elements covered by a box
+	mask: string[];
+	maskColor: string;
+};
+
+export type PdfSettings = {
+	format: string;
+	landscape: boolean;
+	printBackground: boolean;
+	margin: { top?: string; right?: string; bottom?: string; left?: string };
+	pageRanges: string;
+	scale: number;
+};
+
+export type Capture = {
+	data: Buffer;
+	fileName: string;
+	mimeType: string;
+};
+
+/**
+ * Read how an item captures a screenshot.
+ */
+export function getScreenshotSettings(this: IExecuteFunctions, itemIndex: number): ScreenshotSettings {
+	const clip = this.getNodeParameter('screenshotOptions.clip.region', itemIndex, undefined) as
+		| ScreenshotSettings['clip']
+		| undefined;
+
+	return {
+		format: this.getNodeParameter('screenshotFormat', itemIndex, 'jpeg') as ScreenshotSettings['format'],
+		quality: this.getNodeParameter('quality', itemIndex, 80) as number,
+		fullPage: this.getNodeParameter('fullPage', itemIndex, false) as boolean,
+		selector: (this.getNodeParameter('screenshotSelector', itemIndex, '') as string).trim(),
+		clip: clip && clip.width > 0 && clip.height > 0 ? clip : undefined,
+		hide: (this.getNodeParameter('screenshotOptions.hide', itemIndex, '') as string).trim(),
+		mask: (this.getNodeParameter('screenshotOptions.mask', itemIndex, '') as string)
+			.split('\n')
+			.map((selector) => selector.trim())
+			.filter(Boolean),
+		maskColor: this.getNodeParameter('screenshotOptions.maskColor', itemIndex, '#FF00FF') as string,
+	};
+}
+
+/**
+ * Read how an item prints the page to PDF.
+ */
+export function getPdfSettings(this: IExecuteFunctions, itemIndex: number): PdfSettings {
+	const margin: PdfSettings['margin'] = {};
+	for (const side of ['top', 'right', 'bottom', 'left'] as const) {
+		const value = (this.getNodeParameter(`pdfOptions.${side}Margin`, itemIndex, '') as string).trim();
+		if (value) {
+			margin[side] = value;
+		}
+	}
+
+	return {
+		format: this.getNodeParameter('paperFormat', itemIndex, 'A4') as string,
+		landscape: this.getNodeParameter('pdfOptions.landscape', itemIndex, false) as boolean,
+		printBackground: this.getNodeParameter('pdfOptions.printBackground', itemIndex, true) as boolean,
+		margin,
+		pageRanges: (this.getNodeParameter('pdfOptions.pageRanges', itemIndex, '') as string).trim(),
+		scale: this.getNodeParameter('pdfOptions.scale', itemIndex, 1) as number,
+	};
+}
+
+/**
+ * Capture the page, a region of it or an element, after hiding and masking elements.
+ */
+export async function captureScreenshot(page: Page, settings: ScreenshotSettings, timeout: number): Promise<Capture> {
+	const options = {
+		type: settings.format,
+		...(settings.format === 'jpeg' ? { quality: settings.quality } : {}),
+		...(settings.hide ? { style: `${settings.hide} { visibility: hidden !important; }` } : {}),
+		mask: settings.mask.map((selector) => page.locator(selector)),
+		maskColor: settings.maskColor,
+		timeout,
+	};
+
+	const data = settings.selector
+		? await page.locator(settings.selector).first().screenshot(options)
+		: await page.screenshot({
+				...options,
+				fullPage: settings.fullPage,
+				...(settings.clip ? { clip: settings.clip } : {}),
+			});
+
+	return {
+		data,
+		fileName: `screenshot.${settings.format === 'jpeg' ? 'jpg' : 'png'}`,
+		mimeType: `image/${settings.format}`,
+	};
+}
+
+/**
+ * Print the page to PDF, with print CSS. Chrome only prints pages of headless browsers.
+ */
+export async function printToPdf(page: Page, settings: PdfSettings): Promise<Capture> {
+	const data = await page.pdf({
+		format: settings.format,
+		landscape: settings.landscape,
+		printBackground: settings.printBackground,
+		margin: settings.margin,
+		scale: settings.scale,
+		...(settings.pageRanges ? { pageRanges: settings.pageRanges } : {}),
+	});
+
+	return { data, fileName: 'page.pdf', mimeType: 'application/pdf' };
+}
@@ -0,0 +1,18 @@
+import { ApplicationError, NodeOperationError } from 'n8n-workflow';
+import { classifyError, type ErrorCode } from '../shared/errors';
+
+/** A script run in the page that did not compile or threw. */
+export class ScriptError extends ApplicationError {}
+
+const PLAYWRIGHT_ERRORS: Array<[abstract new (...args: never[]) => Error, ErrorCode]> = [
+	[ScriptError, 'SCRIPT_ERROR'],
+	// The node's own checks of its parameters
+	[NodeOperationError, 'INVALID_PARAMETER'],
+];
+
+/**
+ * Classify an error of the Playwright node.
+ */
+export function classifyPlaywrightError(error: unknown): ErrorCode {
+	return classifyError(error, PLAYWRIGHT_ERRORS);
+}
@@ -0,0 +1,266 @@
+import type { IExecuteFunctions } from 'n8n-workflow';
+import { ApplicationError, NodeOperationError } from 'n8n-workflow';
+import type { Page } from 'playwright';
+import { ScriptError } from './errors';
+
+export type Evaluation = {
+	// An expression whose value is the result, or a function body that returns it
+	scriptType: 'expression' | 'function';
+	script: string;
+	args: unknown;
+	// Run the script once per element matching the selector instead of once for the page
+	selector: string;
+};
+
+export type EvaluationResult = {
+	result: unknown;
+	// Number of elements the script ran on, when it ran per element
+	elements?: number;
+};
+
+// The shape of the page's global object the page functions below rely on. The node is
+// not compiled with the DOM types.
+type PageGlobals = Record<string, unknown> & {
+	Node: abstract new () => unknown;
+	NodeList: abstract new () => unknown;
+	HTMLCollection: abstract new () => unknown;
+};
+
+type DomNode = {
+	nodeType: number;
+	nodeName: string;
+	id: string;
+	tagName: string;
+	classList: Iterable<string>;
+};
+
+// Where the arguments, elements and results of a run are kept in the page
+type PageSlot = {
+	args: unknown;
+	elements: unknown[] | null;
+	results: unknown[];
+};
+
+// The part of the Chrome DevTools Protocol's exception details read for script errors
+type ExceptionDetails = {
+	text: string;
+	exception?: { subtype?: string; className?: string; description?: string; value?: unknown };
+};
+
+type ScriptFailure = {
+	name: string;
+	message: string;
+};
+
+// Collects the results of a run and makes them JSON-safe in the page, where DOM nodes and
+// cycles can be recognized. Passed to Playwright as a function, so it is kept to syntax the
+// TypeScript target leaves as is: the page has none of its helpers.
+const collectResults = (key: string) => {
+	const page = globalThis as unknown as PageGlobals;
+	const slot = page[key] as PageSlot;
+	delete page[key];
+
+	const describeNode = (node: DomNode) => {
+		if (node.nodeType !== 1) return '[' + node.nodeName + ']';
+		const id = node.id ? '#' + node.id : '';
+		const classes = Array.from(node.classList, (name) => '.' + name).join('');
+		return '[Element ' + node.tagName.toLowerCase() + id + classes + ']';
+	};
+	const ancestors = new Set<unknown>();
+	const toJson = (value: unknown): unknown => {
+		if (value === undefined || value === null) return null;
+		switch (typeof value) {
+			case 'boolean':
+			case 'string':
+				return value;
+			case 'number':
+				return Number.isFinite(value) ? value : String(value);
+			case 'bigint':
+			case 'symbol':
+				return value.toString();
+			case 'function':
+				return '[Function' + (value.name ? ' ' + value.name : '') + ']';
+		}
+		if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : value.toISOString();
+		if (value instanceof RegExp) return value.toString();
+		if (value instanceof Error) return { name: value.name, message: value.message };
+		if (value instanceof page.Node) return describeNode(value as DomNode);
+		if (value === page.window) return '[Window]';
+		if (ancestors.has(value)) return '[Circular]';
+		ancestors.add(value);
+		try {
+			if (value instanceof Map) {
+				return Object.fromEntries(Array.from(value, ([name, item]) => [String(name), toJson(item)]));
+			}
+			if (
+				Array.isArray(value) ||
+				ArrayBuffer.isView(value) ||
+				value instanceof Set ||
+				value instanceof page.NodeList ||
+				value instanceof page.HTMLCollection
+			) {
+				return Array.from(value as Iterable<unknown>, toJson);
+			}
+			const object = value as Record<string, unknown>;
+			if (typeof object.toJSON === 'function') return toJson(object.toJSON());
+			const result: Record<string, unknown> = {};
+			for (const name of Object.keys(object)) {
+				if (object[name] !== undefined) result[name] = toJson(object[name]);
+			}
+			return result;
+		} finally {
+			ancestors.delete(value);
+		}
+	};
+
+	return slot.elements ? slot.results.map(toJson) : toJson(slot.results[0]);
+};
+
+// Expressions are run as a block, so several statements give the value of the last one.
+// Function bodies are wrapped in an async function so they can await. The script reads its
+// arguments and element from the slot of the run.
+function toExpression(evaluation: Evaluation, key: string, index: number): string {
+	const slot = `window[${JSON.stringify(key)}]`;
+	const bindings =
+		`const args = ${slot}.args, ` +
+		`element = ${slot}.elements ? ${slot}.elements[${index}] : undefined, index = ${index};`;
+	return evaluation.scriptType === 'expression'
+		? `{ ${bindings}\n${evaluation.script}\n}`
+		: `{ ${bindings}\n(async () => {\n${evaluation.script}\n})(); }`;
+}
+
+// The name and message of an error thrown while compiling or running a script
+function toScriptFailure(details: ExceptionDetails): ScriptFailure {
+	const exception = details.exception;
+	if (exception?.subtype === 'error' && exception.description) {
+		const [summary] = exception.description.split('\n');
+		const separator = summary.indexOf(': ');
+		return separator > 0
+			? { name: summary.slice(0, separator), message: summary.slice(separator + 2) }
+			: { name: exception.className ?? 'Error', message: summary };
+	}
+	return {
+		name: 'Error',
+		message: exception?.value !== undefined ? String(exception.value) : (exception?.description ?? details.text),
+	};
+}
+
+/**
+ * Read the script an item evaluates, with its arguments.
+ */
+export function getEvaluation(this: IExecuteFunctions, itemIndex: number): Evaluation {
+	let args = this.getNodeParameter('scriptArguments', itemIndex, '{}') as unknown;
+	if (typeof args === 'string') {
+		try {
+			args = args.trim() ? JSON.parse(args) : null;
+		} catch (error) {
+			throw new NodeOperationError(this.getNode(), `Script arguments are not valid JSON: ${(error as Error).message}`, {
+				itemIndex,
+			});
+		}
+	}
+
+	return {
+		scriptType: this.getNodeParameter('scriptType', itemIndex, 'expression') as Evaluation['scriptType'],
+		script: this.getNodeParameter('script', itemIndex, '') as string,
+		args,
+		selector: (this.getNodeParameter('scriptSelector', itemIndex, '') as string).trim(),
+	};
+}
+
+/**
+ * Run a script in the page and return its result, made JSON-safe: DOM nodes and functions
+ * become descriptions like "[Element a#home]", cycles "[Circular]" and undefined null.
+ * Scripts that do not compile or throw fail with a ScriptError. Scripts are run through
+ * the Chrome DevTools Protocol, which the Content Security Policy of the page does not
+ * restrict, so they also run on pages that forbid eval.
+ */
+export async function evaluateScript(page: Page, evaluation: Evaluation, timeout: number): Promise<EvaluationResult> {
+	const key = `__n8nEvaluation${Math.random().toString(36).slice(2)}`;
+	const cdp = await page.context().newCDPSession(page);
+
+	const run = async (): Promise<EvaluationResult> => {
+		const count = evaluation.selector
+			? await page.locator(evaluation.selector).evaluateAll((elements, input) => {
+					const slot: PageSlot = { args: input.args, elements, results: [] };
+					(globalThis as unknown as PageGlobals)[input.key] = slot;
+					return elements.length;
+				}, { key, args: evaluation.args })
+			: await page.evaluate((input) => {
+					const slot: PageSlot = { args: input.args, elements: null, results: [] };
+					(globalThis as unknown as PageGlobals)[input.key] = slot;
+					return 1;
+				}, { key, args: evaluation.args });
+
+		const compiled = await cdp.send('Runtime.compileScript', {
+			expression: toExpression(evaluation, key, 0),
+			sourceURL: '',
+			persistScript: false,
+		});
+		if (compiled.exceptionDetails) {
+			const { name, message } = toScriptFailure(compiled.exceptionDetails);
+			throw new ScriptError(`The script does not compile: ${name}: ${message}`);
+		}
+
+		const { result: slot } = await cdp.send('Runtime.evaluate', { expression: `window[${JSON.stringify(key)}]` });
+		const runs = await Promise.all(
+			Array.from({ length: count }, async (_, index) => {
+				const { result, exceptionDetails } = await cdp.send('Runtime.evaluate', {
+					expression: toExpression(evaluation, key, index),
+					awaitPromise: true,
+				});
+				if (exceptionDetails) {
+					return toScriptFailure(exceptionDetails);
+				}
+				await cdp.send('Runtime.callFunctionOn', {
+					objectId: slot.objectId,
+					functionDeclaration: 'function (index, value) { this.results[index] = value; }',
+					arguments: [
+						{ value: index },
+						result.objectId
+							? { objectId: result.objectId }
+							: result.unserializableValue
+								? { unserializableValue: result.unserializableValue }
+								: { value: result.value },
+					],
+				});
+				return undefined;
+			}),
+		);
+
+		const failed = runs.findIndex((failure) => failure !== undefined);
+		if (failed !== -1) {
+			const { name, message } = runs[failed]!;
+			const where = evaluation.selector ? ` on element ${failed}` : '';
+			throw new ScriptError(`The script threw${where}: ${name}: ${message}`);
+		}
+
+		return {
+			result: await page.evaluate(collectResults, key),
+			...(evaluation.selector ? { elements: count } : {}),
+		};
+	};
+
+	// Playwright does not time out evaluations, so a script that never settles would hang the item
+	let timer: NodeJS.Timeout | undefined;
+	try {
+		return await (timeout > 0
+			? Promise.race([
+					run(),
+					new Promise<never>((_, reject) => {
+						timer = setTimeout(
+							() => reject(new ApplicationError(`The script timed out after ${timeout} ms`)),
+							timeout,
+						);
+					}),
+				])
+			: run());
+	} finally {
+		clearTimeout(timer);
+		// The slot is left behind when the script fails
+		await cdp
+			.send('Runtime.evaluate', { expression: `delete window[${JSON.stringify(key)}]` })
+			.catch(() => undefined);
+		await cdp.detach().catch(() => undefined);
+	}
+}
@@ -0,0 +1,64 @@
+import type { IExecuteFunctions } from 'n8n-workflow';
+import type { Locator, Page } from 'playwright';
+
+export type ElementRead = {
+	operation: 'getAttribute' | 'getHtml' | 'getInputValue' | 'getState' | 'getText';
+	selector: string;
+	attribute: string;
+	html: 'inner' | 'outer';
+	state: 'checked' | 'enabled' | 'visible';
+	// Whether to wait for a first match, instead of reading nothing when there is none yet
+	waitForMatch: boolean;
+};
+
+/**
+ * Read what an item reads from the elements matching its selector.
+ */
+export function getElementRead(
+	this: IExecuteFunctions,
+	itemIndex: number,
+	operation: ElementRead['operation'],
+): ElementRead {
+	return {
+		operation,
+		selector: this.getNodeParameter('selector', itemIndex, '') as string,
+		attribute: this.getNodeParameter('attributeName', itemIndex, '') as string,
+		html: this.getNodeParameter('htmlType', itemIndex, 'inner') as ElementRead['html'],
+		state: this.getNodeParameter('elementState', itemIndex, 'visible') as ElementRead['state'],
+		waitForMatch: this.getNodeParameter('waitForMatch', itemIndex, true) as boolean,
+	};
+}
+
+async function readElement(element: Locator, read: ElementRead, timeout: number): Promise<string | boolean | null> {
+	switch (read.operation) {
+		case 'getAttribute':
+			return await element.getAttribute(read.attribute, { timeout });
+		case 'getHtml':
+			return read.html === 'inner'
+				? await element.innerHTML({ timeout })
+				: await element.evaluate((node) => (node as { outerHTML: string }).outerHTML, undefined, { timeout });
+		case 'getInputValue':
+			return await element.inputValue({ timeout });
+		case 'getState':
+			if (read.state === 'checked') {
+				return await element.isChecked({ timeout });
+			}
+			return read.state === 'enabled' ? await element.isEnabled({ timeout }) : await element.isVisible();
+		case 'getText':
+			return await element.innerText({ timeout });
+	}
+}
+
+/**
+ * Read a value from every element matching the selector, in document order. Attributes
+ * the element does not have read as null.
+ */
+export async function readElements(page: Page, read: ElementRead, timeout: number): Promise<Array<string | boolean | null>> {
+	const locator = page.locator(read.selector);
+	if (read.waitForMatch) {
+		await locator.first().waitFor({ state: 'attached', timeout });
+	}
+
+	const elements = await locator.all();
+	return await Promise.all(elements.map(async (element) => await readElement(element, read, timeout)));
+}
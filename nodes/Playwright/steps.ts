@@ -0,0 +1,232 @@
+import type { IDataObject, IExecuteFunctions } from 'n8n-workflow';
+import { ApplicationError, NodeOperationError } from 'n8n-workflow';
+import type { Page } from 'playwright';
+import { getErrorDetails, type ErrorDetails } from '../shared/errors';
+import type { NodeLogger } from '../shared/logging';
+import { classifyPlaywrightError } from './errors';
+import { evaluateScript, type Evaluation } from './evaluate';
+
+type StepAction = 'click' | 'evaluate' | 'fill' | 'goto' | 'press' | 'select' | 'wait';
+
+export type Step = {
+	action: StepAction;
+	// Shown in the report and error messages instead of the action
+	name?: string;
+	url?: string;
+	selector?: string;
+	// Text to fill or option to select
+	value?: string;
+	key?: string;
+	// Load state to wait for
+	state?: 'domcontentloaded' | 'load' | 'networkidle';
+	// Milliseconds to wait
+	duration?: number;
+	script?: string;
+	scriptType?: Evaluation['scriptType'];
+	args?: unknown;
+	// Field of the output's values the result of an evaluate step is saved to
+	saveAs?: string;
+	timeout?: number;
+	// Whether the following steps run when this one fails
+	continueOnError?: boolean;
+};
+
+export type StepReport = {
+	step: number;
+	action: StepAction;
+	name?: string;
+	status: 'failed' | 'skipped' | 'success';
+	durationMs: number;
+	// Result of an evaluate step
+	value?: unknown;
+	error?: ErrorDetails;
+};
+
+export type StepsReport = {
+	steps: StepReport[];
+	// Results of the evaluate steps with a saveAs field
+	values: IDataObject;
+};
+
+// Fields each action needs, besides the ones of wait, of which one is enough
+const REQUIRED_FIELDS: Record<StepAction, Array<keyof Step>> = {
+	click: ['selector'],
+	evaluate: ['script'],
+	fill: ['selector', 'value'],
+	goto: ['url'],
+	press: ['selector', 'key'],
+	select: ['selector', 'value'],
+	wait: [],
+};
+
+const LOAD_STATES = ['domcontentloaded', 'load', 'networkidle'];
+
+/** A step that failed without continueOnError, which ended the run. */
+export class StepFailedError extends ApplicationError {
+	constructor(
+		readonly report: StepsReport,
+		failed: StepReport,
+		cause: unknown,
+	) {
+		super(`Step ${failed.step} (${failed.name ?? failed.action}) failed: ${failed.error?.message}`, { cause });
+	}
+
+	/** The last step that succeeded, for the error details of the item. */
+	get lastSuccessfulStep(): string | undefined {
+		const step = [...this.report.steps].reverse().find(({ status }) => status === 'success');
+		return step && `step ${step.step}: ${step.name ?? step.action}`;
+	}
+}
+
+// The reason a step of the list is invalid, if it is
+function checkStep(step: unknown): string | undefined {
+	if (typeof step !== 'object' || step === null || Array.isArray(step)) {
+		return 'it is not an object';
+	}
+	const fields = step as IDataObject;
+	if (typeof fields.action !== 'string' || !(fields.action in REQUIRED_FIELDS)) {
+		return `its action must be one of ${Object.keys(REQUIRED_FIELDS).join(', ')}`;
+	}
+	const missing = REQUIRED_FIELDS[fields.action as StepAction].filter(
+		(field) => fields[field] === undefined || fields[field] === '',
+	);
+	if (missing.length > 0) {
+		return `a ${fields.action} step needs ${missing.join(' and ')}`;
+	}
+	if (fields.action === 'wait' && fields.selector === undefined && fields.state === undefined && fields.duration === undefined) {
+		return 'a wait step needs a selector, state or duration';
+	}
+	if (fields.state !== undefined && !LOAD_STATES.includes(fields.state as string)) {
+		return `its state must be one of ${LOAD_STATES.join(', ')}`;
+	}
+	return undefined;
+}
+
+/**
+ * Read and check the steps an item runs, given as JSON or, through an expression, as an array.
+ */
+export function getSteps(this: IExecuteFunctions, itemIndex: number): Step[] {
+	let steps = this.getNodeParameter('steps', itemIndex, '[]') as unknown;
+	if (typeof steps === 'string') {
+		try {
+			steps = JSON.parse(steps);
+		} catch (error) {
+			throw new NodeOperationError(this.getNode(), `Steps are not valid JSON: ${(error as Error).message}`, {
+				itemIndex,
+			});
+		}
+	}
+	if (!Array.isArray(steps)) {
+		throw new NodeOperationError(this.getNode(), 'Steps must be an array of steps', { itemIndex });
+	}
+
+	steps.forEach((step, index) => {
+		const reason = checkStep(step);
+		if (reason) {
+			throw new NodeOperationError(this.getNode(), `Step ${index + 1} is invalid: ${reason}`, { itemIndex });
+		}
+	});
+	return steps as Step[];
+}
+
+// Run one step, returning the result of evaluate steps
+async function runStep(page: Page, step: Step, timeout: number): Promise<unknown> {
+	switch (step.action) {
+		case 'goto':
+			await page.goto(step.url!, { timeout });
+			return undefined;
+
+		case 'click':
+			await page.click(step.selector!, { timeout });
+			return undefined;
+
+		case 'fill':
+			await page.fill(step.selector!, String(step.value), { timeout });
+			return undefined;
+
+		case 'press':
+			await page.press(step.selector!, step.key!, { timeout });
+			return undefined;
+
+		case 'select':
+			await page.selectOption(step.selector!, String(step.value), { timeout });
+			return undefined;
+
+		case 'wait':
+			if (step.selector) {
+				await page.waitForSelector(step.selector, { timeout });
+			}
+			if (step.state) {
+				await page.waitForLoadState(step.state, { timeout });
+			}
+			if (step.duration) {
+				await page.waitForTimeout(step.duration);
+			}
+			return undefined;
+
+		case 'evaluate': {
+			const { result } = await evaluateScript(
+				page,
+				{
+					scriptType: step.scriptType ?? 'expression',
+					script: step.script!,
+					args: step.args ?? null,
+					selector: '',
+				},
+				timeout,
+			);
+			return result;
+		}
+	}
+}
+
+/**
+ * Run steps in order on a page. A failed step ends the run with a StepFailedError holding
+ * the report so far, unless it continues on error.
+ */
+export async function runSteps(page: Page, steps: Step[], timeout: number, log: NodeLogger): Promise<StepsReport> {
+	const report: StepsReport = { steps: [], values: {} };
+
+	for (const [index, step] of steps.entries()) {
+		const stepReport: StepReport = {
+			step: index + 1,
+			action: step.action,
+			...(step.name ? { name: step.name } : {}),
+			status: 'success',
+			durationMs: 0,
+		};
+		report.steps.push(stepReport);
+
+		const startedAt = Date.now();
+		try {
+			log.debug('Running step', { step: index + 1, action: step.action, name: step.name });
+			const value = await runStep(page, step, step.timeout ?? timeout);
+			if (step.action === 'evaluate') {
+				stepReport.value = value;
+				if (step.saveAs) {
+					report.values[step.saveAs] = value as IDataObject;
+				}
+			}
+		} catch (error) {
+			stepReport.status = 'failed';
+			stepReport.error = getErrorDetails(error, classifyPlaywrightError(error));
+			log.warn('Step failed', { step: index + 1, action: step.action, error: stepReport.error.message });
+			if (!step.continueOnError) {
+				for (const [skipped, rest] of steps.slice(index + 1).entries()) {
+					report.steps.push({
+						step: index + skipped + 2,
+						action: rest.action,
+						...(rest.name ? { name: rest.name } : {}),
+						status: 'skipped',
+						durationMs: 0,
+					});
+				}
+				throw new StepFailedError(report, stepReport, error);
+			}
+		} finally {
+			stepReport.durationMs = Date.now() - startedAt;
+		}
+	}
+
+	return report;
+}
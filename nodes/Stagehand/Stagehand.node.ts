@@ -1,27 +1,190 @@
 import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
 import type { BaseLLM } from '@langchain/core/language_models/llms';
 import type {
+	IDataObject,
 	IExecuteFunctions,
 	INodeExecutionData,
 	INodeType,
 	INodeTypeDescription,
 } from 'n8n-workflow';
 import { ApplicationError, assert, NodeConnectionType, NodeOperationError } from 'n8n-workflow';
-import { LogLine, Stagehand as StagehandCore } from '@browserbasehq/stagehand';
-import { z, ZodTypeAny } from 'zod';
-import jsonToZod from 'json-to-zod';
-import jsonSchemaToZod from 'json-schema-to-zod';
-
-type Field = {
-	fieldName: string;
-	fieldType: string;
-	optional: boolean;
+import {
+	Action,
+	ActOptions,
+	ActResult,
+	AgentResult,
+	LogLine,
+	Page,
+	Stagehand as StagehandCore,
+	V3Options,
+} from '@browserbasehq/stagehand';
+import { z } from 'zod';
+import {
+	CacheFilters,
+	inspectCacheEntry,
+	invalidateCacheEntries,
+	listCacheEntries,
+	recordCacheHits,
+} from './cache';
+import {
+	CapturedScreenshot,
+	captureScreenshot,
+	getScreenshotOptions,
+	screenshotsToBinary,
+} from './screenshots';
+import {
+	attachGuardrails,
+	checkAction,
+	checkUrl,
+	getDeniedTools,
+	getGuardrails,
+	GuardrailViolationError,
+	hasGuardrails,
+} from './guardrails';
+import { assertActionSucceeded, classifyStagehandError } from './errors';
+import { manualZodToZodSchema } from './manualZod';
+import { type AgentMode, checkAgentModeSupport, resolveModel } from './models';
+import { selectObservation } from './observations';
+import {
+	clickNextPage,
+	getPagination,
+	hasListField,
+	mergePageResult,
+	type Pagination,
+	type PaginationReport,
+} from './pagination';
+import { estimateScopeSavings, getScope, getScopeReport } from './scope';
+import {
+	exampleToZodSchema,
+	Field,
+	fieldListValues,
+	fieldsToZodSchema,
+	jsonSchemaToZodSchema,
+	parseJsonParameter,
+} from './schema';
+import {
+	BudgetExceededError,
+	checkBudget,
+	findModelPrice,
+	getUsageReport,
+	ModelPrice,
+	recordLlmCall,
+	recordUsage,
+	startUsageLedger,
+	summarizeUsage,
+	UsageLedger,
+	UsageSummary,
+} from './usage';
+import { createActTool, getVariables, redactSecrets, Variables } from './variables';
+import {
+	errorOutputProperty,
+	errorOutputs,
+	existingSessionOption,
+	getSessionProperties,
+} from '../shared/descriptions';
+import { getErrorDetails } from '../shared/errors';
+import { createNodeLogger, executionTraceOption } from '../shared/logging';
+import {
+	BrowserSession,
+	closeSession,
+	createSession,
+	getSession,
+	touchSession,
+} from '../shared/sessions';
+import {
+	attachNetwork,
+	getNetworkOptions,
+	hasNetworkOptions,
+	interceptsRequests,
+	networkProperty,
+	type NetworkReport,
+} from '../shared/network';
+import {
+	exportStorageState,
+	getStorageStateImport,
+	getStorageStateImportProperties,
+	importStorageState,
+	toDomains,
+	type StorageBrowser,
+	type StorageState,
+} from '../shared/storage';
+import { getTabProperties, getTabSelection, listTabs, selectTab, type Tab } from '../shared/tabs';
+
+type LaunchOptions = {
+	executablePath?: string;
+	args?: string;
+	headless?: boolean;
+	userDataDir?: string;
+	viewportWidth?: number;
+	viewportHeight?: number;
 };
 
-// Filter out messages that contain image/screenshot data entirely
-function sanitizeMessages(messages: LogLine[]): any[] {
+type BrowserOptions = Pick<V3Options, 'env' | 'apiKey' | 'projectId' | 'localBrowserLaunchOptions'>;
+
+// Build the browser-related Stagehand options for the selected browser source
+async function getBrowserOptions(
+	this: IExecuteFunctions,
+	browserSource: string,
+	itemIndex: number,
+): Promise<BrowserOptions> {
+	switch (browserSource) {
+		case 'cdp': {
+			const cdpUrl = this.getNodeParameter('cdpUrl', itemIndex, '') as string;
+			return {
+				env: 'LOCAL',
+				localBrowserLaunchOptions: {
+					cdpUrl,
+				},
+			};
+		}
+
+		case 'local': {
+			// Without a cdpUrl Stagehand launches Chromium itself and kills it on close()
+			const launchOptions = this.getNodeParameter('launchOptions', itemIndex, {}) as LaunchOptions;
+			const args = (launchOptions.args ?? '')
+				.split('\n')
+				.map(s => s.trim())
+				.filter(s => s.length > 0);
+
+			return {
+				env: 'LOCAL',
+				localBrowserLaunchOptions: {
+					headless: launchOptions.headless ?? true,
+					viewport: {
+						width: launchOptions.viewportWidth ?? 1280,
+						height: launchOptions.viewportHeight ?? 720,
+					},
+					...(launchOptions.executablePath ? { executablePath: launchOptions.executablePath } : {}),
+					...(launchOptions.userDataDir
+						? { userDataDir: launchOptions.userDataDir, preserveUserDataDir: true }
+						: {}),
+					...(args.length > 0 ? { args } : {}),
+				},
+			};
+		}
+
+		case 'browserbase': {
+			const credentials = await this.getCredentials('browserbaseApi', itemIndex);
+			return {
+				env: 'BROWSERBASE',
+				apiKey: credentials.apiKey as string,
+				projectId: credentials.projectId as string,
+			};
+		}
+
+		default: {
+			throw new ApplicationError(`Unsupported browser source: ${browserSource}`);
+		}
+	}
+}
+
+// Filter out messages above the verbose level or containing image/screenshot data
+function sanitizeMessages(messages: LogLine[], verbose: number): any[] {
 	return messages
 		.filter(msg => {
+			if ((msg.level ?? 1) > verbose) {
+				return false;
+			}
 			const str = JSON.stringify(msg);
 			return !str.includes('image') && !str.includes('screenshot') && str.length < 5000;
 		})
@@ -32,37 +195,11 @@ function sanitizeMessages(messages: LogLine[]): any[] {
 		}));
 }
 
-// Extract usage data from aisdk messages
-function extractUsageFromMessages(messages: LogLine[]): { prompt_tokens: number; completion_tokens: number; total_tokens: number } | null {
-	let totalPrompt = 0;
-	let totalCompletion = 0;
-	let totalTokens = 0;
-	let found = false;
-
-	for (const msg of messages) {
-		if (msg.category === 'aisdk' && msg.auxiliary?.response?.value) {
-			try {
-				const parsed = JSON.parse(msg.auxiliary.response.value);
-				if (parsed.usage) {
-					found = true;
-					totalPrompt += parsed.usage.prompt_tokens || parsed.usage.promptTokens || 0;
-					totalCompletion += parsed.usage.completion_tokens || parsed.usage.completionTokens || 0;
-					totalTokens += parsed.usage.total_tokens || parsed.usage.totalTokens || 0;
-				}
-			} catch {
-				// Ignore parse errors
-			}
-		}
-	}
-
-	return found ? { prompt_tokens: totalPrompt, completion_tokens: totalCompletion, total_tokens: totalTokens } : null;
-}
-
 // Detect cache hit from messages (more reliable than token count)
 function detectCacheHit(messages: LogLine[]): boolean {
 	return messages.some(msg =>
 		msg.category === 'cache' &&
-		(msg.message === 'agent cache hit' || msg.message === 'cache hit')
+		(msg.message === 'agent cache hit' || msg.message === 'act cache hit' || msg.message === 'cache hit')
 	);
 }
 
@@ -74,22 +211,137 @@ function detectSelfHealUsed(messages: LogLine[]): boolean {
 	);
 }
 
-// Take screenshot and save to file
-async function takeScreenshot(page: any, folder: string, filename: string): Promise<string> {
-	const fs = await import('fs');
-	const path = await import('path');
+type ActInstructionReport = {
+	instruction: string | Action;
+	success: boolean;
+	skipped?: boolean;
+	attempts?: number;
+	durationMs?: number;
+	urlBefore?: string;
+	urlAfter?: string;
+	cacheHit?: boolean;
+	selfHealUsed?: boolean;
+	usage?: UsageSummary;
+	result?: ActResult;
+	error?: string;
+};
+
+// The browser as seen by the storage state functions. Init scripts are added to the open
+// pages, as Stagehand's context cannot remove its own, and the functions removing them are
+// added to `removals` so a reused session does not keep them after the item.
+function toStorageBrowser(stagehand: StagehandCore, removals: Array<() => Promise<void>> = []): StorageBrowser {
+	return {
+		send: async <R>(method: string, params?: object) => await stagehand.context.conn.send<R>(method, params),
+		pages: stagehand.context.pages(),
+		addInitScript: async (source) => {
+			for (const page of stagehand.context.pages()) {
+				const session = page.getSessionForFrame(page.mainFrameId());
+				const { identifier } = await session.send<{ identifier: string }>(
+					'Page.addScriptToEvaluateOnNewDocument',
+					{ source },
+				);
+				removals.push(async () => {
+					await session.send('Page.removeScriptToEvaluateOnNewDocument', { identifier });
+				});
+			}
+		},
+	};
+}
+
+// Go to the next page of a paginated extraction, returning why it failed if it did
+async function goToNextPage(
+	stagehand: StagehandCore,
+	page: Page,
+	pagination: Pagination,
+	messages: LogLine[],
+	ledger: UsageLedger,
+	variables: Variables,
+): Promise<string | undefined> {
+	if (pagination.nextPageBy === 'selector') {
+		return await clickNextPage(page, pagination.nextPage);
+	}
 
-	// Ensure folder exists
-	const fullFolder = path.join('/home/node', folder);
-	if (!fs.existsSync(fullFolder)) {
-		fs.mkdirSync(fullFolder, { recursive: true });
+	// act() waits for the DOM and the network to be quiet
+	const report = await runActInstruction(stagehand, page, pagination.nextPage, messages, ledger, variables, 0, 0);
+	if (!report.success) {
+		return report.error;
 	}
+	await page.waitForLoadState('domcontentloaded');
+	return undefined;
+}
+
+type ActInstruction = (instruction: string | Action, options?: ActOptions) => Promise<ActResult>;
 
-	const filepath = path.join(fullFolder, `${filename}.png`);
-	const screenshot = await page.screenshot({ type: 'png', fullPage: false });
-	fs.writeFileSync(filepath, screenshot);
+// Run a single act instruction, retrying with exponential backoff, and report how it went
+async function runActInstruction(
+	stagehand: StagehandCore,
+	page: Page,
+	instruction: string | Action,
+	messages: LogLine[],
+	ledger: UsageLedger,
+	variables: Variables,
+	retries: number,
+	retryBackoffMs: number,
+	selector?: string,
+): Promise<ActInstructionReport> {
+	const firstMessage = messages.length;
+	const firstCall = ledger.calls.length;
+	ledger.label = typeof instruction === 'string' ? instruction : instruction.description;
+	const urlBefore = page.url();
+	const startedAt = Date.now();
+
+	let attempts = 0;
+	let result: ActResult | undefined;
+	let error: string | undefined;
+	while (attempts <= retries) {
+		if (attempts > 0) {
+			await new Promise(resolve => setTimeout(resolve, retryBackoffMs * 2 ** (attempts - 1)));
+		}
+		attempts++;
+		checkBudget(ledger);
+
+		try {
+			// V3 API: act() is on stagehand, not page. An observed Action runs without the LLM.
+			const options = Object.keys(variables).length > 0 ? { variables } : undefined;
+			let target = instruction;
+			if (typeof instruction === 'string' && selector) {
+				// act() has no scope, so the element is observed within it and then acted on
+				const [action] = await stagehand.observe(instruction, { selector });
+				if (!action) {
+					throw new ApplicationError(`No element for the instruction was found in the scope ${selector}`);
+				}
+				target = action;
+			}
+			// act() has one overload per kind of instruction, which the union matches neither of
+			result = await (stagehand.act as ActInstruction).call(stagehand, target, options);
+			// act() reports some failures (e.g. no matching element) without throwing
+			error = result.success ? undefined : result.message || 'Action could not be performed';
+		} catch (e) {
+			result = undefined;
+			error = (e as Error).message;
+		}
+		await recordUsage(stagehand, ledger);
+
+		if (!error) {
+			break;
+		}
+	}
 
-	return filepath;
+	const instructionMessages = messages.slice(firstMessage);
+	ledger.label = undefined;
+	return {
+		instruction,
+		success: !error,
+		attempts,
+		durationMs: Date.now() - startedAt,
+		urlBefore,
+		urlAfter: page.url(),
+		cacheHit: detectCacheHit(instructionMessages),
+		selfHealUsed: detectSelfHealUsed(instructionMessages),
+		usage: summarizeUsage(ledger.calls.slice(firstCall), ledger.price),
+		...(result ? { result } : {}),
+		...(error ? { error } : {}),
+	};
 }
 
 export class Stagehand implements INodeType {
@@ -100,7 +352,7 @@ export class Stagehand implements INodeType {
 		group: ['transform'],
 		version: 1,
 		subtitle: '={{$parameter["operation"]}}',
-		description: 'Control browser using Stagehand with CDP URL',
+		description: 'Control a browser using Stagehand',
 		defaults: {
 			name: 'Stagehand',
 		},
@@ -113,8 +365,28 @@ export class Stagehand implements INodeType {
 				required: false,
 			},
 		],
-		outputs: [NodeConnectionType.Main],
+		outputs: errorOutputs,
 		usableAsTool: true,
+		credentials: [
+			{
+				name: 'browserbaseApi',
+				required: true,
+				displayOptions: {
+					show: {
+						browserSource: ['browserbase'],
+					},
+				},
+			},
+			{
+				name: 'stagehandSecretsApi',
+				required: true,
+				displayOptions: {
+					show: {
+						useSecretsCredential: [true],
+					},
+				},
+			},
+		],
 		properties: [
 			{
 				displayName: 'Operation',
@@ -127,260 +399,817 @@ export class Stagehand implements INodeType {
 						description: 'Execute an action on the page using natural language',
 						action: 'Execute an action on the page',
 					},
+					{
+						name: 'Act on Observation',
+						value: 'actOnObservation',
+						description: 'Execute an action returned by Observe without calling the LLM',
+						action: 'Execute an observed action',
+					},
+					{
+						name: 'Agent',
+						value: 'agent',
+						description: 'Execute a complex multi-step task autonomously',
+						action: 'Run autonomous agent',
+					},
 					{
 						name: 'Extract',
 						value: 'extract',
 						description: 'Extract structured data from the page',
 						action: 'Extract data from the page',
 					},
+					{
+						name: 'Manage Cache',
+						value: 'manageCache',
+						description: 'List, inspect or invalidate cached act and agent replays',
+						action: 'Manage the action cache',
+					},
 					{
 						name: 'Observe',
 						value: 'observe',
 						description: 'Observe the page and plan an action',
 						action: 'Observe the page',
 					},
-					{
-						name: 'Agent',
-						value: 'agent',
-						description: 'Execute a complex multi-step task autonomously',
-						action: 'Run autonomous agent',
-					},
 				],
 				default: 'act',
 			},
+			// Manage Cache options
 			{
-				displayName: 'CDP URL',
-				name: 'cdpUrl',
-				type: 'string',
-				default: '',
-				placeholder: 'ws://localhost:9222/devtools/browser/...',
-				description: 'Chrome DevTools Protocol URL to connect to the browser',
-				required: true,
-			},
-			{
-				displayName: 'Page URL',
-				name: 'pageUrl',
-				type: 'string',
-				default: '',
-				placeholder: 'https://google.com',
-				description: 'URL to navigate to before performing the action (required for act/extract)',
-				required: false,
-			},
-			{
-				displayName: 'Instructions',
-				name: 'instructions',
+				displayName: 'Cache Directory',
+				name: 'cacheDirectory',
 				type: 'string',
-				typeOptions: {
-					rows: 4,
-				},
 				default: '',
-				placeholder: 'Click "Accept cookies"\nType "hello" in the search box\nClick the search button',
-				description: 'Instructions for Stagehand (one per line, executed in sequence)',
+				placeholder: 'cache/my-workflow',
+				description: 'Cache directory to manage, as set in the Cache Directory option of the nodes using it',
 				required: true,
-			},
-			// Agent-specific options
-			{
-				displayName: 'Max Steps',
-				name: 'maxSteps',
-				type: 'number',
-				default: 10,
-				description: 'Maximum number of steps the agent can take to complete the task',
 				displayOptions: {
 					show: {
-						operation: ['agent'],
+						operation: ['manageCache'],
 					},
 				},
 			},
 			{
-				displayName: 'Agent Mode',
-				name: 'agentMode',
+				displayName: 'Cache Action',
+				name: 'cacheAction',
 				type: 'options',
 				options: [
 					{
-						name: 'DOM (Recommended)',
-						value: 'dom',
-						description: 'Uses accessibility tree/DOM for fast, reliable element selection. This is the only stable mode.',
+						name: 'Get Size',
+						value: 'size',
+						description: 'Count the cached entries and their total size on disk',
 					},
-				],
-				default: 'dom',
-				description: 'Agent execution mode. Currently only DOM mode is stable.',
-				displayOptions: {
-					show: {
-						operation: ['agent'],
+					{
+						name: 'Inspect Entry',
+						value: 'inspect',
+						description: 'Get the recorded steps of a single entry',
 					},
-				},
-			},
-			{
-				displayName: 'Context',
-				name: 'agentContext',
-				type: 'string',
-				typeOptions: {
-					rows: 3,
-				},
-				default: '',
-				placeholder: 'Additional context for the agent...',
-				description: 'Additional context to help the agent understand the task',
-				displayOptions: {
-					show: {
-						operation: ['agent'],
+					{
+						name: 'Invalidate Entries',
+						value: 'invalidate',
+						description: 'Delete the entries matching the filters so they are recorded again on the next run',
 					},
-				},
-			},
-			// Extract After Agent options
-			{
-				displayName: 'Extract After Agent',
-				name: 'extractAfterAgent',
-				type: 'boolean',
-				default: false,
-				description: 'Run an extract operation after agent completes (runs on both discovery and replay)',
+					{
+						name: 'List Entries',
+						value: 'list',
+						description: 'List the cached entries with their instruction, URL, creation time and hit count',
+					},
+				],
+				default: 'list',
 				displayOptions: {
 					show: {
-						operation: ['agent'],
+						operation: ['manageCache'],
 					},
 				},
 			},
 			{
-				displayName: 'Extract Instruction',
-				name: 'extractInstruction',
+				displayName: 'Entry ID',
+				name: 'cacheEntryId',
 				type: 'string',
-				typeOptions: {
-					rows: 2,
-				},
 				default: '',
-				placeholder: 'Extract the birth date from the page',
-				description: 'What data to extract from the page after agent completes',
+				description: 'ID of the entry to inspect, as returned by List Entries',
+				required: true,
 				displayOptions: {
 					show: {
-						operation: ['agent'],
-						extractAfterAgent: [true],
+						operation: ['manageCache'],
+						cacheAction: ['inspect'],
 					},
 				},
 			},
 			{
-				displayName: 'Extract Schema Source',
-				name: 'extractSchemaSource',
-				type: 'options',
-				options: [
-					{
-						name: 'Field List',
-						value: 'fieldList',
-					},
-					{
-						name: 'JSON Schema',
-						value: 'jsonSchema',
-					},
-				],
+				displayName: 'Filters',
+				name: 'cacheFilters',
+				type: 'collection',
+				placeholder: 'Add Filter',
+				default: {},
+				description: 'Entries matching all of the filters are deleted',
 				displayOptions: {
 					show: {
-						operation: ['agent'],
-						extractAfterAgent: [true],
+						operation: ['manageCache'],
+						cacheAction: ['invalidate'],
 					},
 				},
-				default: 'jsonSchema',
-			},
-			{
-				displayName: 'Extract Fields',
-				name: 'extractFields',
-				type: 'fixedCollection',
-				typeOptions: {
-					multipleValues: true,
-					multipleValueButtonText: 'Add Field',
-					minRequiredFields: 1,
-				},
-				default: [],
-				description: 'Fields to extract',
 				options: [
 					{
-						displayName: 'Field',
-						name: 'field',
-						values: [
-							{
-								displayName: 'Name',
-								name: 'fieldName',
-								type: 'string',
-								default: '',
-								required: true,
-							},
+						displayName: 'Entry Type',
+						name: 'entryType',
+						type: 'options',
+						options: [
 							{
-								displayName: 'Type',
-								name: 'fieldType',
-								type: 'options',
-								options: [
-									{ name: 'String', value: 'string' },
-									{ name: 'Number', value: 'number' },
-									{ name: 'Boolean', value: 'boolean' },
-									{ name: 'Array', value: 'array' },
-									{ name: 'Object', value: 'object' },
-								],
-								default: 'string',
-								required: true,
+								name: 'Act',
+								value: 'act',
 							},
 							{
-								displayName: 'Optional',
-								name: 'optional',
-								type: 'boolean',
-								default: false,
+								name: 'Agent',
+								value: 'agent',
 							},
 						],
+						default: 'act',
 					},
-				],
-				displayOptions: {
-					show: {
-						operation: ['agent'],
-						extractAfterAgent: [true],
-						extractSchemaSource: ['fieldList'],
+					{
+						displayName: 'Instruction Contains',
+						name: 'instructionContains',
+						type: 'string',
+						default: '',
+						description: 'Text the cached instruction must contain (case-insensitive)',
 					},
-				},
-			},
-			{
-				displayName: 'Extract JSON Schema',
-				name: 'extractJsonSchema',
-				type: 'json',
-				typeOptions: {
-					rows: 6,
-				},
-				displayOptions: {
-					show: {
-						operation: ['agent'],
-						extractAfterAgent: [true],
-						extractSchemaSource: ['jsonSchema'],
+					{
+						displayName: 'Older Than (Hours)',
+						name: 'olderThanHours',
+						type: 'number',
+						default: 24,
+						typeOptions: {
+							minValue: 0,
+						},
+						description: 'Only delete entries recorded at least this many hours ago. Use 0 to match every entry.',
 					},
-				},
-				default: '{\n  "type": "object",\n  "properties": {\n    "data": { "type": "string", "description": "The extracted data" }\n  },\n  "required": ["data"]\n}',
+					{
+						displayName: 'URL Pattern',
+						name: 'urlPattern',
+						type: 'string',
+						default: '',
+						placeholder: 'https://example.com/checkout/*',
+						description: 'URL the entry was recorded on. Use * as a wildcard.',
+					},
+				],
 			},
 			{
-				displayName: 'Schema Source',
-				name: 'schemaSource',
+				displayName: 'Browser Source',
+				name: 'browserSource',
 				type: 'options',
 				options: [
 					{
-						name: 'Field List',
-						value: 'fieldList',
-					},
-					{
-						name: 'Example JSON',
-						value: 'example',
+						name: 'Browserbase',
+						value: 'browserbase',
+						description: 'Run the browser remotely on Browserbase',
 					},
 					{
-						name: 'JSON Schema',
-						value: 'jsonSchema',
+						name: 'Connect via CDP',
+						value: 'cdp',
+						description: 'Connect to an already running browser through its CDP URL',
 					},
+					existingSessionOption,
 					{
-						name: 'Manual Zod',
-						value: 'manual',
+						name: 'Launch Local Browser',
+						value: 'local',
+						description: 'Launch a Chromium instance managed by this node and close it afterwards',
 					},
 				],
+				default: 'cdp',
+				description: 'Where the browser controlled by Stagehand comes from',
 				displayOptions: {
-					show: {
-						operation: ['extract'],
+					hide: {
+						operation: ['manageCache'],
 					},
 				},
-				default: 'fieldList',
-				required: true,
 			},
 			{
-				displayName: 'Fields',
-				name: 'fields',
+				displayName: 'CDP URL',
+				name: 'cdpUrl',
+				type: 'string',
+				default: '',
+				placeholder: 'ws://localhost:9222/devtools/browser/...',
+				description: 'Chrome DevTools Protocol URL to connect to the browser',
+				required: true,
+				displayOptions: {
+					show: {
+						browserSource: ['cdp'],
+					},
+					hide: {
+						operation: ['manageCache'],
+					},
+				},
+			},
+			{
+				displayName: 'Launch Options',
+				name: 'launchOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				description: 'Options for the Chromium instance launched by the node',
+				displayOptions: {
+					show: {
+						browserSource: ['local'],
+					},
+					hide: {
+						operation: ['manageCache'],
+					},
+				},
+				options: [
+					{
+						displayName: 'Executable Path',
+						name: 'executablePath',
+						type: 'string',
+						default: '',
+						placeholder: '/usr/bin/chromium',
+						description: 'Path to the Chrome/Chromium binary. Leave empty to use the locally installed Chrome.',
+					},
+					{
+						displayName: 'Extra Arguments',
+						name: 'args',
+						type: 'string',
+						typeOptions: {
+							rows: 3,
+						},
+						default: '',
+						placeholder: '--no-sandbox\n--disable-dev-shm-usage',
+						description: 'Additional command line arguments for the browser (one per line)',
+					},
+					{
+						displayName: 'Headless',
+						name: 'headless',
+						type: 'boolean',
+						default: true,
+						description: 'Whether to run the browser without a visible window',
+					},
+					{
+						displayName: 'User Data Directory',
+						name: 'userDataDir',
+						type: 'string',
+						default: '',
+						placeholder: '/home/node/.stagehand/profile',
+						description: 'Browser profile directory. Leave empty to use a temporary profile that is deleted on close.',
+					},
+					{
+						displayName: 'Viewport Height',
+						name: 'viewportHeight',
+						type: 'number',
+						default: 720,
+						typeOptions: {
+							minValue: 1,
+						},
+						description: 'Height of the browser viewport in pixels',
+					},
+					{
+						displayName: 'Viewport Width',
+						name: 'viewportWidth',
+						type: 'number',
+						default: 1280,
+						typeOptions: {
+							minValue: 1,
+						},
+						description: 'Width of the browser viewport in pixels',
+					},
+				],
+			},
+			...getSessionProperties({ operation: ['manageCache'] }),
+			...getTabProperties({ operation: ['manageCache'] }),
+			{
+				displayName: 'Page URL',
+				name: 'pageUrl',
+				type: 'string',
+				default: '',
+				placeholder: 'https://google.com',
+				description: 'URL to navigate to before performing the action (required for act/extract)',
+				required: false,
+				displayOptions: {
+					hide: {
+						operation: ['manageCache'],
+					},
+				},
+			},
+			...getStorageStateImportProperties({ hide: { operation: ['manageCache'] } }),
+			{
+				displayName: 'Instructions',
+				name: 'instructions',
+				type: 'string',
+				typeOptions: {
+					rows: 4,
+				},
+				default: '',
+				placeholder: 'Click "Accept cookies"\nType "hello" in the search box\nClick the search button',
+				description: 'Instructions for Stagehand (one per line, executed in sequence)',
+				required: true,
+				displayOptions: {
+					hide: {
+						operation: ['actOnObservation', 'manageCache'],
+					},
+				},
+			},
+			{
+				displayName: 'Scope',
+				name: 'scopeSelector',
+				type: 'string',
+				default: '',
+				placeholder: '#search-results',
+				description:
+					'CSS or XPath selector of the element to work in. Only its part of the page is sent to the model, which saves tokens on large pages. Leave empty to use the whole page.',
+				displayOptions: {
+					show: {
+						operation: ['act', 'extract', 'observe'],
+					},
+				},
+			},
+			{
+				displayName: 'Scope Iframe',
+				name: 'scopeIframe',
+				type: 'string',
+				default: '',
+				placeholder: 'iframe#checkout',
+				description:
+					'CSS selector of an iframe to work in. With a Scope, the scope is looked up inside the iframe as a CSS selector.',
+				displayOptions: {
+					show: {
+						operation: ['act', 'extract', 'observe'],
+					},
+				},
+			},
+			// Act on Observation options
+			{
+				displayName: 'Observations',
+				name: 'observations',
+				type: 'json',
+				default: '={{ $json.result }}',
+				description: 'Observe results to choose from, as output by the Observe operation',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['actOnObservation'],
+					},
+				},
+			},
+			{
+				displayName: 'Select Observation By',
+				name: 'selectObservationBy',
+				type: 'options',
+				options: [
+					{
+						name: 'Index',
+						value: 'index',
+						description: 'Take the observation at a position in the list',
+					},
+					{
+						name: 'Filter',
+						value: 'filter',
+						description: 'Take the first observation matching a description and method',
+					},
+				],
+				default: 'index',
+				displayOptions: {
+					show: {
+						operation: ['actOnObservation'],
+					},
+				},
+			},
+			{
+				displayName: 'Observation Index',
+				name: 'observationIndex',
+				type: 'number',
+				default: 0,
+				description: 'Position of the observation, starting at 0. Negative values count from the end.',
+				displayOptions: {
+					show: {
+						operation: ['actOnObservation'],
+						selectObservationBy: ['index'],
+					},
+				},
+			},
+			{
+				displayName: 'Description Filter',
+				name: 'observationFilter',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g. add to cart or /add to (cart|basket)/i',
+				description:
+					'Text the observation description must contain, ignoring case. Wrap in slashes to use a regular expression.',
+				displayOptions: {
+					show: {
+						operation: ['actOnObservation'],
+						selectObservationBy: ['filter'],
+					},
+				},
+			},
+			{
+				displayName: 'Method Filter',
+				name: 'observationMethod',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g. click',
+				description: 'Only match observations using this method. Leave empty to match any method.',
+				displayOptions: {
+					show: {
+						operation: ['actOnObservation'],
+						selectObservationBy: ['filter'],
+					},
+				},
+			},
+			{
+				displayName: 'Argument Overrides',
+				name: 'argumentOverrides',
+				type: 'fixedCollection',
+				typeOptions: {
+					multipleValues: true,
+					sortable: true,
+				},
+				placeholder: 'Add Argument',
+				default: {},
+				description:
+					'Arguments replacing the observed ones, e.g. the text to type. Variables can be used as %name%.',
+				displayOptions: {
+					show: {
+						operation: ['actOnObservation'],
+					},
+				},
+				options: [
+					{
+						displayName: 'Argument',
+						name: 'argument',
+						values: [
+							{
+								displayName: 'Value',
+								name: 'value',
+								type: 'string',
+								default: '',
+							},
+						],
+					},
+				],
+			},
+			{
+				displayName: 'Variables',
+				name: 'variables',
+				type: 'fixedCollection',
+				typeOptions: {
+					multipleValues: true,
+				},
+				placeholder: 'Add Variable',
+				default: {},
+				description:
+					'Values referenced in instructions as %name%. They are filled in at the browser level, never sent to the model and redacted from the output. Agent runs using variables are not cached.',
+				displayOptions: {
+					show: {
+						operation: ['act', 'actOnObservation', 'agent'],
+					},
+				},
+				options: [
+					{
+						displayName: 'Variable',
+						name: 'variable',
+						values: [
+							{
+								displayName: 'Name',
+								name: 'name',
+								type: 'string',
+								default: '',
+								placeholder: 'password',
+							},
+							{
+								displayName: 'Value',
+								name: 'value',
+								type: 'string',
+								typeOptions: {
+									password: true,
+								},
+								default: '',
+							},
+						],
+					},
+				],
+			},
+			{
+				displayName: 'Use Secrets Credential',
+				name: 'useSecretsCredential',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to load additional variables from a Stagehand Secrets credential',
+				displayOptions: {
+					show: {
+						operation: ['act', 'actOnObservation', 'agent'],
+					},
+				},
+			},
+			// Act-specific options
+			{
+				displayName: 'Retries',
+				name: 'retries',
+				type: 'number',
+				default: 0,
+				typeOptions: {
+					minValue: 0,
+				},
+				description: 'How many times to retry a failed instruction before applying the failure policy',
+				displayOptions: {
+					show: {
+						operation: ['act', 'actOnObservation'],
+					},
+				},
+			},
+			{
+				displayName: 'Retry Backoff (Ms)',
+				name: 'retryBackoffMs',
+				type: 'number',
+				default: 1000,
+				typeOptions: {
+					minValue: 0,
+				},
+				description: 'Delay before the first retry. Each following retry waits twice as long.',
+				displayOptions: {
+					show: {
+						operation: ['act', 'actOnObservation'],
+					},
+				},
+			},
+			{
+				displayName: 'On Instruction Failure',
+				name: 'onInstructionFailure',
+				type: 'options',
+				options: [
+					{
+						name: 'Continue',
+						value: 'continue',
+						description: 'Report the failure and run the next instructions anyway',
+					},
+					{
+						name: 'Skip Remaining',
+						value: 'skipRemaining',
+						description: 'Report the failure and mark the remaining instructions as skipped',
+					},
+					{
+						name: 'Stop on First Failure',
+						value: 'stop',
+						description: 'Fail the item, keeping the report of the instructions run so far',
+					},
+				],
+				default: 'stop',
+				description: 'What to do when an instruction still fails after all retries',
+				displayOptions: {
+					show: {
+						operation: ['act'],
+					},
+				},
+			},
+			// Agent-specific options
+			{
+				displayName: 'Max Steps',
+				name: 'maxSteps',
+				type: 'number',
+				default: 10,
+				description: 'Maximum number of steps the agent can take to complete the task',
+				displayOptions: {
+					show: {
+						operation: ['agent'],
+					},
+				},
+			},
+			{
+				displayName: 'Agent Mode',
+				name: 'agentMode',
+				type: 'options',
+				options: [
+					{
+						name: 'Computer Use',
+						value: 'cua',
+						description:
+							'Hands the browser to a computer use model (OpenAI computer-use-preview, Claude, Gemini computer use) that works from screenshots. Budgets are checked after the run and variables are not supported.',
+					},
+					{
+						name: 'DOM (Recommended)',
+						value: 'dom',
+						description: 'Uses accessibility tree/DOM for fast, reliable element selection',
+					},
+					{
+						name: 'Hybrid',
+						value: 'hybrid',
+						description:
+							'Clicks and types at coordinates picked from screenshots, falling back to the accessibility tree. Needs a model that reads images.',
+					},
+				],
+				default: 'dom',
+				description:
+					'How the agent sees and interacts with the page. Hybrid and Computer Use set the viewport to the configured size at a device scale factor of 1 so screenshot coordinates match the page.',
+				displayOptions: {
+					show: {
+						operation: ['agent'],
+					},
+				},
+			},
+			{
+				displayName: 'Context',
+				name: 'agentContext',
+				type: 'string',
+				typeOptions: {
+					rows: 3,
+				},
+				default: '',
+				placeholder: 'Additional context for the agent...',
+				description: 'Additional context to help the agent understand the task',
+				displayOptions: {
+					show: {
+						operation: ['agent'],
+					},
+				},
+			},
+			{
+				displayName: 'Output Steps',
+				name: 'outputSteps',
+				type: 'boolean',
+				default: false,
+				description:
+					'Whether to output one item per agent step, before the summary item. With screenshots taken after each step, every step item gets its own.',
+				displayOptions: {
+					show: {
+						operation: ['agent'],
+					},
+				},
+			},
+			{
+				displayName: 'Guardrails',
+				name: 'guardrails',
+				type: 'collection',
+				placeholder: 'Add Guardrail',
+				default: {},
+				description: 'Limits on what the agent may do. A violation ends the run and is reported in guardrailViolation.',
+				displayOptions: {
+					show: {
+						operation: ['agent'],
+					},
+				},
+				options: [
+					{
+						displayName: 'Allowed Domains',
+						name: 'allowedDomains',
+						type: 'string',
+						default: '',
+						placeholder: 'example.com, app.example.org',
+						description:
+							'Comma-separated domains the agent may navigate to, subdomains included. Navigation anywhere else is blocked.',
+					},
+					{
+						displayName: 'Denied Actions',
+						name: 'deniedActions',
+						type: 'string',
+						default: '',
+						placeholder: 'delete, purchase, goto',
+						description:
+							'Comma-separated agent tools (e.g. goto, fillForm) or words the agent may not use. Act instructions are checked before they run, Hybrid mode clicks and typing once they are done. Not supported in Computer Use mode.',
+					},
+					{
+						displayName: 'Max Duration (Seconds)',
+						name: 'maxDuration',
+						type: 'number',
+						default: 0,
+						typeOptions: {
+							minValue: 0,
+						},
+						description: 'Longest time the agent may run. 0 means no limit. Not supported in Computer Use mode.',
+					},
+					{
+						displayName: 'Max Navigations',
+						name: 'maxNavigations',
+						type: 'number',
+						default: 0,
+						typeOptions: {
+							minValue: 0,
+						},
+						description: 'Number of page loads the agent may start. 0 means no limit.',
+					},
+				],
+			},
+			// Extract After Agent options
+			{
+				displayName: 'Extract After Agent',
+				name: 'extractAfterAgent',
+				type: 'boolean',
+				default: false,
+				description: 'Run an extract operation after agent completes (runs on both discovery and replay)',
+				displayOptions: {
+					show: {
+						operation: ['agent'],
+					},
+				},
+			},
+			{
+				displayName: 'Extract Instruction',
+				name: 'extractInstruction',
+				type: 'string',
+				typeOptions: {
+					rows: 2,
+				},
+				default: '',
+				placeholder: 'Extract the birth date from the page',
+				description: 'What data to extract from the page after agent completes',
+				displayOptions: {
+					show: {
+						operation: ['agent'],
+						extractAfterAgent: [true],
+					},
+				},
+			},
+			{
+				displayName: 'Extract Schema Source',
+				name: 'extractSchemaSource',
+				type: 'options',
+				options: [
+					{
+						name: 'Field List',
+						value: 'fieldList',
+					},
+					{
+						name: 'JSON Schema',
+						value: 'jsonSchema',
+					},
+				],
+				displayOptions: {
+					show: {
+						operation: ['agent'],
+						extractAfterAgent: [true],
+					},
+				},
+				default: 'jsonSchema',
+			},
+			{
+				displayName: 'Extract Fields',
+				name: 'extractFields',
+				type: 'fixedCollection',
+				typeOptions: {
+					multipleValues: true,
+					multipleValueButtonText: 'Add Field',
+					minRequiredFields: 1,
+				},
+				default: [],
+				description: 'Fields to extract',
+				options: [
+					{
+						displayName: 'Field',
+						name: 'field',
+						values: fieldListValues,
+					},
+				],
+				displayOptions: {
+					show: {
+						operation: ['agent'],
+						extractAfterAgent: [true],
+						extractSchemaSource: ['fieldList'],
+					},
+				},
+			},
+			{
+				displayName: 'Extract JSON Schema',
+				name: 'extractJsonSchema',
+				type: 'json',
+				typeOptions: {
+					rows: 6,
+				},
+				displayOptions: {
+					show: {
+						operation: ['agent'],
+						extractAfterAgent: [true],
+						extractSchemaSource: ['jsonSchema'],
+					},
+				},
+				default: '{\n  "type": "object",\n  "properties": {\n    "data": { "type": "string", "description": "The extracted data" }\n  },\n  "required": ["data"]\n}',
+			},
+			{
+				displayName: 'Schema Source',
+				name: 'schemaSource',
+				type: 'options',
+				options: [
+					{
+						name: 'Field List',
+						value: 'fieldList',
+					},
+					{
+						name: 'Example JSON',
+						value: 'example',
+					},
+					{
+						name: 'JSON Schema',
+						value: 'jsonSchema',
+					},
+					{
+						name: 'Manual Zod',
+						value: 'manual',
+					},
+				],
+				displayOptions: {
+					show: {
+						operation: ['extract'],
+					},
+				},
+				default: 'fieldList',
+				required: true,
+			},
+			{
+				displayName: 'Fields',
+				name: 'fields',
 				type: 'fixedCollection',
 				typeOptions: {
 					multipleValues: true,
@@ -393,52 +1222,7 @@ export class Stagehand implements INodeType {
 					{
 						displayName: 'Field',
 						name: 'field',
-						values: [
-							{
-								displayName: 'Name',
-								name: 'fieldName',
-								type: 'string',
-								default: '',
-								description: 'Property name in the extracted object',
-								required: true,
-							},
-							{
-								displayName: 'Type',
-								name: 'fieldType',
-								type: 'options',
-								options: [
-									{
-										name: 'Array',
-										value: 'array',
-									},
-									{
-										name: 'Boolean',
-										value: 'boolean',
-									},
-									{
-										name: 'Number',
-										value: 'number',
-									},
-									{
-										name: 'Object',
-										value: 'object',
-									},
-									{
-										name: 'String',
-										value: 'string',
-									},
-								],
-								default: 'string',
-								required: true,
-							},
-							{
-								displayName: 'Optional',
-								name: 'optional',
-								type: 'boolean',
-								default: false,
-								required: true,
-							},
-						],
+						values: fieldListValues,
 					},
 				],
 				displayOptions: {
@@ -496,6 +1280,160 @@ export class Stagehand implements INodeType {
 					'z.object({\n  title: z.string().describe("The page title"),\n  description: z.string().describe("The page description")\n})',
 				required: true,
 			},
+			{
+				displayName: 'Paginate',
+				name: 'paginate',
+				type: 'boolean',
+				default: false,
+				description:
+					'Whether to extract from several pages, going to the next page after each one and merging the results. The schema needs a list field to collect the items of every page in.',
+				displayOptions: {
+					show: {
+						operation: ['extract'],
+					},
+				},
+			},
+			{
+				displayName: 'Next Page By',
+				name: 'nextPageBy',
+				type: 'options',
+				options: [
+					{
+						name: 'Instruction',
+						value: 'instruction',
+						description: 'Let Stagehand find the control to the next page',
+					},
+					{
+						name: 'Selector',
+						value: 'selector',
+						description: 'Click the element matching a selector, without the LLM',
+					},
+				],
+				default: 'instruction',
+				displayOptions: {
+					show: {
+						operation: ['extract'],
+						paginate: [true],
+					},
+				},
+			},
+			{
+				displayName: 'Next Page Instruction',
+				name: 'nextPage',
+				type: 'string',
+				default: 'Click the next page button',
+				description: 'Instruction that goes to the next page',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['extract'],
+						paginate: [true],
+						nextPageBy: ['instruction'],
+					},
+				},
+			},
+			{
+				displayName: 'Next Page Selector',
+				name: 'nextPage',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g. a[rel="next"]',
+				description: 'CSS or XPath selector of the element that goes to the next page',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['extract'],
+						paginate: [true],
+						nextPageBy: ['selector'],
+					},
+				},
+			},
+			{
+				displayName: 'Max Pages',
+				name: 'maxPages',
+				type: 'number',
+				default: 5,
+				typeOptions: {
+					minValue: 1,
+				},
+				description: 'Maximum number of pages to extract from, including the first one',
+				displayOptions: {
+					show: {
+						operation: ['extract'],
+						paginate: [true],
+					},
+				},
+			},
+			{
+				displayName: 'Stop When',
+				name: 'stopWhen',
+				type: 'options',
+				options: [
+					{
+						name: 'Max Pages Reached',
+						value: 'maxPages',
+						description: 'Only stop at the max pages, or when there is no next page',
+					},
+					{
+						name: 'No New Items',
+						value: 'noNewItems',
+						description: 'Stop when a page adds no items that were not extracted before',
+					},
+					{
+						name: 'Selector Found',
+						value: 'selector',
+						description: 'Stop when an element appears, e.g. a disabled next button',
+					},
+				],
+				default: 'noNewItems',
+				description: 'When to stop going to the next page, besides reaching the max pages',
+				displayOptions: {
+					show: {
+						operation: ['extract'],
+						paginate: [true],
+					},
+				},
+			},
+			{
+				displayName: 'Stop Selector',
+				name: 'stopSelector',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g. button.next[disabled]',
+				description: 'CSS or XPath selector of an element only present on the last page',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['extract'],
+						paginate: [true],
+						stopWhen: ['selector'],
+					},
+				},
+			},
+			{
+				displayName: 'De-Duplicate By Field',
+				name: 'dedupeKey',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g. url',
+				description:
+					'Field identifying the items of list results, to drop items already extracted from a previous page. Leave empty to drop only identical items.',
+				displayOptions: {
+					show: {
+						operation: ['extract'],
+						paginate: [true],
+					},
+				},
+			},
+			{
+				...networkProperty,
+				displayOptions: {
+					hide: {
+						operation: ['manageCache'],
+					},
+				},
+			},
+			errorOutputProperty,
 			// ADVANCED OPTIONS
 			{
 				displayName: 'Advanced Options',
@@ -504,6 +1442,11 @@ export class Stagehand implements INodeType {
 				placeholder: 'Add Option',
 				default: {},
 				description: 'Advanced options for Stagehand',
+				displayOptions: {
+					hide: {
+						operation: ['manageCache'],
+					},
+				},
 				options: [
 					{
 						displayName: 'Cache Directory',
@@ -514,53 +1457,240 @@ export class Stagehand implements INodeType {
 						description: 'Directory to cache actions for replay. First run uses LLM, subsequent runs replay instantly (0 tokens). Leave empty to disable caching.',
 					},
 					{
-						displayName: 'Self Heal',
-						name: 'selfHeal',
-						type: 'boolean',
-						default: false,
-						description: 'Automatically adapt to minor DOM changes when replaying cached actions',
+						displayName: 'Self Heal',
+						name: 'selfHeal',
+						type: 'boolean',
+						default: false,
+						description: 'Automatically adapt to minor DOM changes when replaying cached actions',
+					},
+					{
+						displayName: 'DOM Settle Timeout (ms)',
+						name: 'domSettleTimeoutMs',
+						type: 'number',
+						default: 10000,
+						description: 'How long to wait for the DOM to stabilize before taking actions. Increase for slow/dynamic pages.',
+					},
+					executionTraceOption,
+					{
+						displayName: 'Log Messages',
+						name: 'logMessages',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to include Stagehand log messages in the node output',
+					},
+					{
+						displayName: 'Verbose Level',
+						name: 'verbose',
+						type: 'options',
+						options: [
+							{
+								name: 'No Logs',
+								value: 0,
+							},
+							{
+								name: 'Only Errors',
+								value: 1,
+							},
+							{
+								name: 'All Logs',
+								value: 2,
+							},
+						],
+						default: 0,
+						description: 'Level of verbosity for Stagehand internal logging and what the node writes to the n8n log',
+					},
+					{
+						displayName: 'Model Prices',
+						name: 'modelPrices',
+						type: 'fixedCollection',
+						typeOptions: {
+							multipleValues: true,
+						},
+						placeholder: 'Add Price',
+						default: {},
+						description:
+							'Prices used to estimate the cost of the LLM calls, in USD per million tokens. Only the price of the connected model is used.',
+						options: [
+							{
+								displayName: 'Price',
+								name: 'price',
+								values: [
+									{
+										displayName: 'Model',
+										name: 'model',
+										type: 'string',
+										default: '',
+										placeholder: 'e.g. gpt-4o or openai/gpt-4o',
+									},
+									{
+										displayName: 'Input Price',
+										name: 'inputPrice',
+										type: 'number',
+										typeOptions: {
+											minValue: 0,
+											numberPrecision: 4,
+										},
+										default: 0,
+										description: 'Price of one million prompt tokens',
+									},
+									{
+										displayName: 'Cached Input Price',
+										name: 'cachedInputPrice',
+										type: 'number',
+										typeOptions: {
+											minValue: 0,
+											numberPrecision: 4,
+										},
+										default: 0,
+										description:
+											'Price of one million prompt tokens read from the provider cache. 0 charges them at the input price.',
+									},
+									{
+										displayName: 'Output Price',
+										name: 'outputPrice',
+										type: 'number',
+										typeOptions: {
+											minValue: 0,
+											numberPrecision: 4,
+										},
+										default: 0,
+										description: 'Price of one million completion tokens',
+									},
+								],
+							},
+						],
+					},
+					{
+						displayName: 'Token Budget',
+						name: 'tokenBudget',
+						type: 'number',
+						typeOptions: {
+							minValue: 0,
+						},
+						default: 0,
+						description: 'Fail the item once it has used more tokens than this. 0 means no limit.',
 					},
 					{
-						displayName: 'DOM Settle Timeout (ms)',
-						name: 'domSettleTimeoutMs',
+						displayName: 'Cost Budget (USD)',
+						name: 'costBudget',
 						type: 'number',
-						default: 10000,
-						description: 'How long to wait for the DOM to stabilize before taking actions. Increase for slow/dynamic pages.',
+						typeOptions: {
+							minValue: 0,
+							numberPrecision: 4,
+						},
+						default: 0,
+						description:
+							'Fail the item once its estimated cost is higher than this. Needs a price for the connected model. 0 means no limit.',
 					},
 					{
-						displayName: 'Log Messages',
-						name: 'logMessages',
+						displayName: 'Take Screenshots',
+						name: 'takeScreenshots',
 						type: 'boolean',
 						default: false,
-						description: 'Whether to include Stagehand log messages in the node output',
+						description: 'Whether to attach screenshots of the page to the output item as binary data',
 					},
 					{
-						displayName: 'Verbose Level',
-						name: 'verbose',
+						displayName: 'Screenshot Timing',
+						name: 'screenshotTiming',
 						type: 'options',
 						options: [
 							{
-								name: 'No Logs',
-								value: 0,
+								name: 'After Each Instruction or Step',
+								value: 'afterEach',
+								description: 'After every act instruction, agent step, extract or observe',
 							},
 							{
-								name: 'Only Errors',
-								value: 1,
+								name: 'Final Only',
+								value: 'final',
+								description: 'Once, after the operation finished',
 							},
 							{
-								name: 'All Logs',
-								value: 2,
+								name: 'On Error Only',
+								value: 'onError',
+								description: 'Only when the operation or an act instruction fails',
 							},
 						],
-						default: 0,
-						description: 'Level of verbosity for Stagehand internal logging',
+						default: 'final',
+						displayOptions: {
+							show: {
+								takeScreenshots: [true],
+							},
+						},
 					},
 					{
-						displayName: 'Take Screenshots',
-						name: 'takeScreenshots',
+						displayName: 'Full Page Screenshots',
+						name: 'screenshotFullPage',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to capture the full scrollable page instead of the viewport',
+						displayOptions: {
+							show: {
+								takeScreenshots: [true],
+							},
+						},
+					},
+					{
+						displayName: 'Screenshot Format',
+						name: 'screenshotFormat',
+						type: 'options',
+						options: [
+							{
+								name: 'JPEG',
+								value: 'jpeg',
+							},
+							{
+								name: 'PNG',
+								value: 'png',
+							},
+						],
+						default: 'png',
+						displayOptions: {
+							show: {
+								takeScreenshots: [true],
+							},
+						},
+					},
+					{
+						displayName: 'JPEG Quality',
+						name: 'screenshotQuality',
+						type: 'number',
+						typeOptions: {
+							minValue: 0,
+							maxValue: 100,
+						},
+						default: 80,
+						description: 'Quality of the JPEG image (0-100)',
+						displayOptions: {
+							show: {
+								takeScreenshots: [true],
+								screenshotFormat: ['jpeg'],
+							},
+						},
+					},
+					{
+						displayName: 'Save Screenshots to Disk',
+						name: 'saveScreenshotsToDisk',
 						type: 'boolean',
 						default: false,
-						description: 'Take a screenshot after each action and at the end',
+						description: 'Whether to also write the screenshots to files on the n8n host',
+						displayOptions: {
+							show: {
+								takeScreenshots: [true],
+							},
+						},
+					},
+					{
+						displayName: 'Screenshots Base Path',
+						name: 'screenshotsBasePath',
+						type: 'string',
+						default: '/home/node',
+						description: 'Directory the screenshots folder is resolved against',
+						displayOptions: {
+							show: {
+								takeScreenshots: [true],
+								saveScreenshotsToDisk: [true],
+							},
+						},
 					},
 					{
 						displayName: 'Screenshots Folder',
@@ -568,10 +1698,33 @@ export class Stagehand implements INodeType {
 						type: 'string',
 						default: 'screenshots',
 						placeholder: 'screenshots',
-						description: 'Folder to save screenshots (relative to /home/node/)',
+						description: 'Folder to save screenshots in, relative to the base path',
 						displayOptions: {
 							show: {
 								takeScreenshots: [true],
+								saveScreenshotsToDisk: [true],
+							},
+						},
+					},
+					{
+						displayName: 'Export Storage State',
+						name: 'exportStorageState',
+						type: 'boolean',
+						default: false,
+						description:
+							'Whether to add the cookies and web storage of the browser after the operation to the output, e.g. to reuse a login later',
+					},
+					{
+						displayName: 'Storage State Domains',
+						name: 'storageStateDomains',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g. example.com, login.example.org',
+						description:
+							'Comma-separated domains to export the cookies and web storage of, with their subdomains. Leave empty to export everything.',
+						displayOptions: {
+							show: {
+								exportStorageState: [true],
 							},
 						},
 					},
@@ -583,360 +1736,1064 @@ export class Stagehand implements INodeType {
 	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
 		const items = this.getInputData();
 		const results: INodeExecutionData[] = [];
+		const errorOutput = this.getNodeParameter('errorOutput', 0, false) as boolean;
+		// Failed items, when they go to the Error output
+		const failedItems: INodeExecutionData[] = [];
 		const model = await this.getInputConnectionData(NodeConnectionType.AiLanguageModel, 0);
 
-		assert(Stagehand.isChatInstance(model), 'A Chat Model is required');
-		assert('model' in model, 'Model is not defined in the input connection data');
-		assert('apiKey' in model, 'API Key is not defined in the input connection data');
-		assert(typeof model.model === 'string', 'Model must be a string');
-		assert(typeof model.apiKey === 'string', 'API Key must be a string');
-
-		for (let i = 0; i < items.length; i++) {
-			const operation = this.getNodeParameter('operation', i) as string;
-			const cdpUrl = this.getNodeParameter('cdpUrl', i, '') as string;
-
-			// Advanced options
-			const cacheDir = this.getNodeParameter('options.cacheDir', i, '') as string;
-			const selfHeal = this.getNodeParameter('options.selfHeal', i, false) as boolean;
-			const domSettleTimeoutMs = this.getNodeParameter('options.domSettleTimeoutMs', i, 10000) as number;
-			const logMessages = this.getNodeParameter('options.logMessages', i, false) as boolean;
-			const verbose = this.getNodeParameter('options.verbose', i, 0) as 0 | 1 | 2;
-			const takeScreenshots = this.getNodeParameter('options.takeScreenshots', i, false) as boolean;
-			const screenshotsFolder = this.getNodeParameter('options.screenshotsFolder', i, 'screenshots') as string;
-
-			// Always capture messages for usage tracking (even if logMessages is false)
-			const messages: LogLine[] = [];
-			// Map provider names to what Stagehand expects
-			let provider = model.lc_namespace[2];
-			if (provider === 'google_genai' || provider === 'google_vertexai') {
-				provider = 'google';
-			} else if (model.model.includes('deepseek')) {
-				provider = 'deepseek';
-			}
+		// Session started by an earlier item of this execution, reused by the following items
+		let startedSession: BrowserSession | undefined;
+		const sessionsToClose = new Set<string>();
 
-			// Debug logging
-			console.log('[Stagehand Debug] Provider:', provider);
-			console.log('[Stagehand Debug] Model:', model.model);
-			console.log('[Stagehand Debug] Full modelName:', provider + '/' + model.model);
-			console.log('[Stagehand Debug] CDP URL:', cdpUrl);
-			if (cacheDir) {
-				console.log('[Stagehand Debug] Cache Dir:', cacheDir, '(replay mode enabled)');
-			}
+		try {
+			for (let i = 0; i < items.length; i++) {
+				const operation = this.getNodeParameter('operation', i) as string;
 
-			const stagehand = new StagehandCore({
-				env: 'LOCAL',
-				experimental: true,
-				verbose,
-				selfHeal,
-				domSettleTimeout: domSettleTimeoutMs,
-				// Enable action caching/replay if cacheDir is specified
-				...(cacheDir ? { cacheDir } : {}),
-				// Always capture messages for usage tracking
-				// (logMessages option controls whether they appear in output)
-				logger: (message) => {
-					messages.push(message);
-				},
-				// V3 API: model as ModelConfiguration object with modelName + apiKey
-				model: {
-					modelName: provider + '/' + model.model,
-					apiKey: model.apiKey,
-				} as any,
-				localBrowserLaunchOptions: {
-					cdpUrl,
-				},
-			});
-			await stagehand.init();
+				// Cache management only touches the file system: no browser and no model needed
+				if (operation === 'manageCache') {
+					const cacheDirectory = this.getNodeParameter('cacheDirectory', i) as string;
+					const cacheAction = this.getNodeParameter('cacheAction', i) as string;
+					try {
+						results.push({
+							json: {
+								operation,
+								cacheAction,
+								cacheDir: cacheDirectory,
+								...(await Stagehand.manageCache.call(this, cacheAction, cacheDirectory, i)),
+							},
+							pairedItem: { item: i },
+						});
+					} catch (error) {
+						const nodeError = new NodeOperationError(this.getNode(), error as Error, {
+							message: `Error managing Stagehand cache: ${error.message}`,
+							itemIndex: i,
+						});
+						if (!errorOutput && !this.continueOnFail()) {
+							throw nodeError;
+						}
+						(errorOutput ? failedItems : results).push({
+							error: nodeError,
+							json: {
+								operation,
+								cacheAction,
+								error: getErrorDetails(error, classifyStagehandError(error)),
+							},
+							pairedItem: { item: i },
+						});
+					}
+					continue;
+				}
 
-			// V3 API: get the page from context
-			const pages = stagehand.context.pages();
-			const page = pages[0];
+				// Replaced once the item's options and variables are read
+				let log = createNodeLogger.call(this, i, { verbose: 0, trace: false });
+				try {
+					assert(Stagehand.isChatInstance(model), 'A Chat Model is required');
+					const resolvedModel = resolveModel(model);
 
-			// Navigate to page URL if provided
-			const pageUrl = this.getNodeParameter('pageUrl', i, '') as string;
-			if (pageUrl) {
-				console.log('[Stagehand Debug] Navigating to:', pageUrl);
-				await page.goto(pageUrl, { waitUntil: 'domcontentloaded' });
-				console.log('[Stagehand Debug] Navigation complete');
-			}
+					const browserSource = this.getNodeParameter('browserSource', i, 'cdp') as string;
+					const keepSessionOpen =
+						browserSource !== 'session' &&
+						(this.getNodeParameter('keepSessionOpen', i, false) as boolean);
+
+					// Advanced options
+					const cacheDir = this.getNodeParameter('options.cacheDir', i, '') as string;
+					const selfHeal = this.getNodeParameter('options.selfHeal', i, false) as boolean;
+					const domSettleTimeoutMs = this.getNodeParameter('options.domSettleTimeoutMs', i, 10000) as number;
+					const logMessages = this.getNodeParameter('options.logMessages', i, false) as boolean;
+					const verbose = this.getNodeParameter('options.verbose', i, 0) as 0 | 1 | 2;
+					const takeScreenshots = this.getNodeParameter('options.takeScreenshots', i, false) as boolean;
+					const screenshotOptions = getScreenshotOptions.call(this, i);
+
+					const modelPrices = this.getNodeParameter('options.modelPrices.price', i, []) as ModelPrice[];
+					const ledger: UsageLedger = {
+						calls: [],
+						price: findModelPrice(modelPrices, resolvedModel.provider, resolvedModel.modelName),
+						maxTokens: this.getNodeParameter('options.tokenBudget', i, 0) as number,
+						maxCost: this.getNodeParameter('options.costBudget', i, 0) as number,
+						agentStepsRecorded: false,
+					};
+					if (ledger.maxCost > 0 && !ledger.price) {
+						throw new NodeOperationError(
+							this.getNode(),
+							`The cost budget needs a price for ${resolvedModel.configuration.modelName} in Model Prices`,
+							{ itemIndex: i },
+						);
+					}
+
+					// Always capture messages for cache hit detection (even if logMessages is false)
+					const messages: LogLine[] = [];
+					const logger = (message: LogLine) => {
+						messages.push(message);
+					};
+
+					const variables: Variables =
+						['act', 'actOnObservation', 'agent'].includes(operation)
+							? await getVariables.call(this, i)
+							: {};
+					const hasVariables = Object.keys(variables).length > 0;
+
+					log = createNodeLogger.call(this, i, {
+						verbose,
+						trace: this.getNodeParameter('options.executionTrace', i, false) as boolean,
+						redact: value => redactSecrets(value, variables),
+					});
 
-			try {
-				switch (operation) {
-					case 'act': {
-						const instructionsRaw = this.getNodeParameter('instructions', i, '') as string;
-						const instructions = instructionsRaw.split('\n').map(s => s.trim()).filter(s => s.length > 0);
-
-						const actResults: any[] = [];
-						for (const instruction of instructions) {
-							console.log('[Stagehand Debug] Executing instruction:', instruction);
-							// V3 API: act() is on stagehand, not page
-							const result = await stagehand.act(instruction);
-							actResults.push({ instruction, result });
+					const agentMode = this.getNodeParameter('agentMode', i, 'dom') as AgentMode;
+					const guardrails = getGuardrails.call(this, i);
+					const network = getNetworkOptions.call(this, i);
+					// Read before the browser is up, so an invalid storage state fails the item first
+					const storageState = await getStorageStateImport.call(this, i);
+					const scope = ['act', 'extract', 'observe'].includes(operation) ? getScope.call(this, i) : undefined;
+					if (operation === 'agent') {
+						checkAgentModeSupport(resolvedModel, agentMode);
+						// Computer use models type what they see fit, there is no tool to fill in variables
+						if (agentMode === 'cua' && hasVariables) {
+							throw new NodeOperationError(
+								this.getNode(),
+								'Variables are not supported in Computer Use mode, use DOM or Hybrid mode instead',
+								{ itemIndex: i },
+							);
 						}
+						// Nor can their run be stopped before it is over
+						if (agentMode === 'cua' && (guardrails.deniedActions.length > 0 || guardrails.maxDurationMs > 0)) {
+							throw new NodeOperationError(
+								this.getNode(),
+								'Denied actions and the max duration are not supported in Computer Use mode, use DOM or Hybrid mode instead',
+								{ itemIndex: i },
+							);
+						}
+					}
 
-						// Extract usage to check for cache hit
-						const actUsage = extractUsageFromMessages(messages);
-						const isCacheHit = actUsage && actUsage.total_tokens === 0;
+					// Both would pause the requests of the page
+					if (
+						operation === 'agent' &&
+						interceptsRequests(network) &&
+						(guardrails.allowedDomains.length > 0 || guardrails.maxNavigations > 0)
+					) {
+						throw new NodeOperationError(
+							this.getNode(),
+							'Blocked requests and mock responses are not supported with the Allowed Domains and Max Navigations guardrails',
+							{ itemIndex: i },
+						);
+					}
 
-						results.push({
-							json: {
-								operation,
-								results: actResults,
-								cacheHit: isCacheHit,
-								...(cacheDir ? { cacheDir } : {}),
-								usage: actUsage,
-								currentUrl: page.url(),
-								...(logMessages ? { messages: sanitizeMessages(messages) } : {}),
+					let session: BrowserSession | undefined;
+					if (browserSource === 'session') {
+						session = getSession(this.getNodeParameter('sessionId', i) as string);
+						if (this.getNodeParameter('closeSession', i, false) as boolean) {
+							sessionsToClose.add(session.id);
+						}
+					} else if (keepSessionOpen) {
+						session = startedSession;
+					}
+
+					log.debug('Starting Stagehand operation', {
+						operation,
+						model: resolvedModel.configuration.modelName,
+						browserSource,
+						...(session ? { sessionId: session.id } : {}),
+						...(cacheDir ? { cacheDir } : {}),
+					});
+
+					// A session's Stagehand instance keeps the model and options of the node that created it,
+					// so a node joining with others would run and budget a model it did not pick
+					const stagehandSettings = {
+						model: `${resolvedModel.provider}/${resolvedModel.modelName}`,
+						cacheDir,
+						selfHeal,
+						domSettleTimeoutMs,
+					};
+					const differentSettings = session?.stagehand
+						? Object.entries(stagehandSettings)
+								.filter(([name, value]) => session?.stagehandSettings?.[name] !== value)
+								.map(([name]) => name)
+						: [];
+					if (differentSettings.length > 0) {
+						throw new NodeOperationError(
+							this.getNode(),
+							`The session's browser is driven with a different ${differentSettings.join(', ')}`,
+							{
+								description: `Use the same model and options as the node that started the session: ${JSON.stringify(session?.stagehandSettings)}`,
+								itemIndex: i,
+							},
+						);
+					}
+
+					let stagehand = session?.stagehand;
+					if (!stagehand) {
+						const browserOptions: BrowserOptions = session
+							? { env: 'LOCAL', localBrowserLaunchOptions: { cdpUrl: session.cdpUrl } }
+							: await getBrowserOptions.call(this, browserSource, i);
+
+						stagehand = new StagehandCore({
+							...browserOptions,
+							experimental: true,
+							// Stagehand drops log lines above its verbose level, including cache hits,
+							// so everything is captured and the verbose level filters the output instead
+							verbose: 2,
+							selfHeal,
+							domSettleTimeout: domSettleTimeoutMs,
+							// Enable action caching/replay if cacheDir is specified. Agent replays would
+							// type the %name% placeholders literally, so runs using variables skip the cache.
+							...(cacheDir && !(operation === 'agent' && hasVariables) ? { cacheDir } : {}),
+							// Always capture messages for usage tracking
+							// (logMessages option controls whether they appear in output)
+							logger: (message) => {
+								(session?.logger ?? logger)(message);
 							},
+							// V3 API: model as ModelConfiguration object with modelName, apiKey, baseURL, ...
+							model: resolvedModel.configuration,
 						});
-						break;
+						await stagehand.init();
+
+						if (session) {
+							session.stagehand = stagehand;
+							session.stagehandSettings = stagehandSettings;
+						} else if (keepSessionOpen) {
+							const idleTimeout = this.getNodeParameter('idleTimeout', i, 10) as number;
+							session = createSession(stagehand.connectURL(), idleTimeout * 60 * 1000, {
+								stagehand,
+								stagehandSettings,
+							});
+							startedSession = session;
+						}
+					}
+					if (session) {
+						session.logger = logger;
 					}
 
-					case 'extract': {
-						const instructionsRaw = this.getNodeParameter('instructions', i, '') as string;
-						const instruction = instructionsRaw.split('\n')[0]?.trim() || '';
-						const schemaSource = this.getNodeParameter('schemaSource', i, 'example') as string;
+					// The page the item works on, once it is selected
+					let activePage: Page | undefined;
+					let detachNetwork: (() => Promise<NetworkReport>) | undefined;
+					const initScriptRemovals: Array<() => Promise<void>> = [];
 
-						let schema: z.ZodObject<any>;
-						switch (schemaSource) {
-							case 'fieldList': {
-								const fields = this.getNodeParameter('fields.field', i, []) as any[];
-								schema = Stagehand.fieldsToZodSchema(fields);
-								break;
+					// Output gathered before a failure, added to the error item
+					let partialOutput: IDataObject = {};
+
+					const screenshots: CapturedScreenshot[] = [];
+					const screenshot = async (
+						timing: 'afterEach' | 'final' | 'onError',
+						label: string,
+						target = screenshots,
+					) => {
+						if (activePage && takeScreenshots && screenshotOptions.timing === timing) {
+							const captured = await captureScreenshot(activePage, screenshotOptions, label);
+							if (captured) {
+								target.push(captured);
 							}
+						}
+					};
+
+					// Agent step items, output before the summary or error item
+					const stepItems: INodeExecutionData[] = [];
+
+					let tabs: Tab[] = [];
+					let exportedState: StorageState | undefined;
+					let networkReport: NetworkReport | undefined;
+
+					// Reported with the error when a later step fails
+					let lastSuccessfulStep: string | undefined;
+					// Output of the result or error item
+					let itemOutput = results;
+
+					// Everything after the browser is up runs guarded, so a browser launched for this item
+					// alone never outlives it
+					try {
+						// V3 API: get the page from context. Act, extract, observe and agents work on the active page.
+						const page = await selectTab(
+							stagehand.context.pages(),
+							getTabSelection.call(this, i),
+							async () => await stagehand.context.newPage(),
+						);
+						activePage = page;
+						stagehand.context.setActivePage(page);
+
+						if (hasNetworkOptions(network)) {
+							detachNetwork = await attachNetwork(page.getSessionForFrame(page.mainFrameId()), network, log);
+						}
+
+						// Restore a login and the like before navigating
+						if (storageState) {
+							log.info(
+								'Imported the storage state',
+								await importStorageState(toStorageBrowser(stagehand, initScriptRemovals), storageState),
+							);
+						}
+
+						// Navigate to page URL if provided
+						const pageUrl = this.getNodeParameter('pageUrl', i, '') as string;
+						if (pageUrl) {
+							log.info('Navigating', { url: pageUrl });
+							await page.goto(pageUrl, { waitUntil: 'domcontentloaded' });
+							log.debug('Navigation complete', { url: page.url() });
+						}
 
-							case 'example': {
-								const example = this.getNodeParameter('exampleJson', i) as string;
-								schema = new Function('z', `${jsonToZod(JSON.parse(example))}return schema;`)(z);
+						await startUsageLedger(stagehand, ledger);
+
+						switch (operation) {
+							case 'act': {
+								const instructionsRaw = this.getNodeParameter('instructions', i, '') as string;
+								const instructions = instructionsRaw.split('\n').map(s => s.trim()).filter(s => s.length > 0);
+
+								const retries = this.getNodeParameter('retries', i, 0) as number;
+								const retryBackoffMs = this.getNodeParameter('retryBackoffMs', i, 1000) as number;
+								const onInstructionFailure = this.getNodeParameter('onInstructionFailure', i, 'stop') as string;
+
+								const firstMessage = messages.length;
+								const scopeEstimate = scope ? await estimateScopeSavings(page, scope) : undefined;
+
+								const actResults: ActInstructionReport[] = [];
+								// Keep the report of the instructions already run if a later one stops the item
+								partialOutput = { results: actResults };
+
+								let failed = false;
+								for (const [index, instruction] of instructions.entries()) {
+									if (failed && onInstructionFailure === 'skipRemaining') {
+										actResults.push({ instruction, success: false, skipped: true });
+										continue;
+									}
+
+									log.info('Running instruction', { index: index + 1, instruction });
+									const report = await runActInstruction(
+										stagehand,
+										page,
+										instruction,
+										messages,
+										ledger,
+										variables,
+										retries,
+										retryBackoffMs,
+										scope?.stagehandSelector,
+									);
+									actResults.push(report);
+									await screenshot('afterEach', `instruction_${index + 1}`);
+									checkBudget(ledger);
+
+									if (!report.success) {
+										failed = true;
+										if (onInstructionFailure === 'stop') {
+											assertActionSucceeded(report, `Instruction "${instruction}"`);
+										}
+										await screenshot('onError', `instruction_${index + 1}`);
+									} else {
+										lastSuccessfulStep = `instruction ${index + 1}: ${instruction}`;
+									}
+								}
+
+								if (cacheDir) {
+									await recordCacheHits(cacheDir, messages);
+								}
+
+								const isCacheHit = actResults.length > 0 && actResults.every(r => r.cacheHit);
+
+								results.push({
+									json: redactSecrets({
+										operation,
+										success: !failed,
+										results: actResults,
+										...(scope ? { scope: getScopeReport(scope, scopeEstimate, messages.slice(firstMessage)) } : {}),
+										cacheHit: isCacheHit,
+										...(cacheDir ? { cacheDir } : {}),
+										usage: getUsageReport(ledger),
+										currentUrl: page.url(),
+										...(session ? { sessionId: session.id } : {}),
+										...(logMessages ? { messages: sanitizeMessages(messages, verbose) } : {}),
+									}, variables),
+									pairedItem: { item: i },
+								});
 								break;
 							}
 
-							case 'jsonSchema': {
-								const jsonSchema = this.getNodeParameter('jsonSchema', i) as string;
-								schema = new Function('z', `return ${jsonSchemaToZod(JSON.parse(jsonSchema))};`)(z);
+							case 'actOnObservation': {
+								const observations = parseJsonParameter(this.getNodeParameter('observations', i), 'observations');
+								const { action, index } = selectObservation(observations, {
+									selectBy: this.getNodeParameter('selectObservationBy', i, 'index') as 'index' | 'filter',
+									index: this.getNodeParameter('observationIndex', i, 0) as number,
+									filter: this.getNodeParameter('observationFilter', i, '') as string,
+									method: this.getNodeParameter('observationMethod', i, '') as string,
+								});
+								const argumentOverrides = this.getNodeParameter(
+									'argumentOverrides.argument',
+									i,
+									[],
+								) as Array<{ value: string }>;
+								if (argumentOverrides.length > 0) {
+									action.arguments = argumentOverrides.map(argument => argument.value);
+								}
+
+								const report = await runActInstruction(
+									stagehand,
+									page,
+									action,
+									messages,
+									ledger,
+									variables,
+									this.getNodeParameter('retries', i, 0) as number,
+									this.getNodeParameter('retryBackoffMs', i, 1000) as number,
+								);
+								partialOutput = { observationIndex: index, observation: action, report };
+								await screenshot('afterEach', 'action');
+								assertActionSucceeded(report, `Observed action "${action.description}"`);
+
+								results.push({
+									json: redactSecrets({
+										operation,
+										success: true,
+										observationIndex: index,
+										observation: action,
+										result: report.result,
+										attempts: report.attempts,
+										durationMs: report.durationMs,
+										selfHealUsed: report.selfHealUsed,
+										usage: getUsageReport(ledger),
+										currentUrl: page.url(),
+										...(session ? { sessionId: session.id } : {}),
+										...(logMessages ? { messages: sanitizeMessages(messages, verbose) } : {}),
+									}, variables),
+									pairedItem: { item: i },
+								});
 								break;
 							}
 
-							case 'manual': {
-								const zodCode = this.getNodeParameter('manualZod', i) as string;
-								schema = new Function('z', `return ${zodCode};`)(z);
+							case 'extract': {
+								const instructionsRaw = this.getNodeParameter('instructions', i, '') as string;
+								const instruction = instructionsRaw.split('\n')[0]?.trim() || '';
+								const schemaSource = this.getNodeParameter('schemaSource', i, 'example') as string;
+
+								let schema: z.ZodObject<any>;
+								switch (schemaSource) {
+									case 'fieldList': {
+										const fields = this.getNodeParameter('fields.field', i, []) as Field[];
+										schema = fieldsToZodSchema(fields);
+										break;
+									}
+
+									case 'example': {
+										const example = this.getNodeParameter('exampleJson', i);
+										schema = exampleToZodSchema(parseJsonParameter(example, 'example JSON'));
+										break;
+									}
+
+									case 'jsonSchema': {
+										const jsonSchema = this.getNodeParameter('jsonSchema', i);
+										schema = jsonSchemaToZodSchema(parseJsonParameter(jsonSchema, 'JSON Schema'));
+										break;
+									}
+
+									case 'manual': {
+										const zodCode = this.getNodeParameter('manualZod', i) as string;
+										schema = manualZodToZodSchema(zodCode);
+										break;
+									}
+
+									default: {
+										throw new ApplicationError(`Unsupported schema source: ${schemaSource}`);
+									}
+								}
+
+								// Pages are merged by collecting the items of their list fields
+								const pagination = getPagination.call(this, i);
+								if (pagination && !hasListField(schema)) {
+									throw new NodeOperationError(
+										this.getNode(),
+										'Paginating needs a schema with a list field to collect the items of every page in',
+										{ itemIndex: i },
+									);
+								}
+
+								const firstMessage = messages.length;
+								const scopeEstimate = scope ? await estimateScopeSavings(page, scope) : undefined;
+
+								// V3 API: extract() is on stagehand, not page
+								// Cast to any to avoid TypeScript deep instantiation error
+								const extractPage = async () => {
+									const pageResult = await (stagehand.extract as any)(
+										instruction,
+										schema,
+										scope ? { selector: scope.stagehandSelector } : undefined,
+									);
+									await recordUsage(stagehand, ledger);
+									return pageResult;
+								};
+
+								let extractResult = await extractPage();
+								await screenshot('afterEach', 'extract');
+								checkBudget(ledger);
+
+								let paginationReport: PaginationReport | undefined;
+								if (pagination) {
+									const seen = new Set<string>();
+									let merge = mergePageResult(undefined, extractResult, pagination.dedupeKey, seen);
+									paginationReport = {
+										pagesVisited: 1,
+										stopReason: 'maxPages',
+										itemsPerPage: [merge.newItems],
+										duplicatesRemoved: merge.duplicates,
+										urls: [page.url()],
+									};
+									// Keep what the pages already visited gave if a later one fails
+									partialOutput = { result: merge.merged, pagination: paginationReport };
+
+									while (paginationReport.pagesVisited < pagination.maxPages) {
+										if (
+											pagination.stopWhen === 'selector' &&
+											(await page.locator(pagination.stopSelector).count()) > 0
+										) {
+											paginationReport.stopReason = 'stopSelector';
+											break;
+										}
+
+										const nextPageError = await goToNextPage(stagehand, page, pagination, messages, ledger, variables);
+										if (nextPageError) {
+											paginationReport.stopReason = 'nextPageFailed';
+											paginationReport.nextPageError = nextPageError;
+											break;
+										}
+
+										const pageResult = await extractPage();
+										paginationReport.pagesVisited++;
+										await screenshot('afterEach', `extract_page_${paginationReport.pagesVisited}`);
+										checkBudget(ledger);
+
+										merge = mergePageResult(merge.merged, pageResult, pagination.dedupeKey, seen);
+										paginationReport.itemsPerPage.push(merge.newItems);
+										paginationReport.duplicatesRemoved += merge.duplicates;
+										paginationReport.urls.push(page.url());
+										partialOutput.result = merge.merged;
+										lastSuccessfulStep = `page ${paginationReport.pagesVisited}`;
+										if (pagination.stopWhen === 'noNewItems' && merge.newItems === 0) {
+											paginationReport.stopReason = 'noNewItems';
+											break;
+										}
+									}
+									extractResult = merge.merged;
+								}
+
+								results.push({
+									json: {
+										operation,
+										result: extractResult,
+										...(paginationReport ? { pagination: paginationReport } : {}),
+										...(scope ? { scope: getScopeReport(scope, scopeEstimate, messages.slice(firstMessage)) } : {}),
+										usage: getUsageReport(ledger),
+										...(session ? { sessionId: session.id } : {}),
+										...(logMessages ? { messages: sanitizeMessages(messages, verbose) } : {}),
+									},
+									pairedItem: { item: i },
+								});
 								break;
 							}
 
-							default: {
-								throw new ApplicationError(`Unsupported schema source: ${schemaSource}`);
+							case 'observe': {
+								const instructionsRaw = this.getNodeParameter('instructions', i, '') as string;
+								const instruction = instructionsRaw.split('\n')[0]?.trim() || '';
+
+								const firstMessage = messages.length;
+								const scopeEstimate = scope ? await estimateScopeSavings(page, scope) : undefined;
+
+								// V3 API: observe() is on stagehand, not page
+								const observeResult = await stagehand.observe(
+									instruction,
+									scope ? { selector: scope.stagehandSelector } : undefined,
+								);
+								await recordUsage(stagehand, ledger);
+								await screenshot('afterEach', 'observe');
+								checkBudget(ledger);
+								results.push({
+									json: {
+										operation,
+										result: observeResult,
+										...(scope ? { scope: getScopeReport(scope, scopeEstimate, messages.slice(firstMessage)) } : {}),
+										usage: getUsageReport(ledger),
+										...(session ? { sessionId: session.id } : {}),
+										...(logMessages ? { messages: sanitizeMessages(messages, verbose) } : {}),
+									},
+									pairedItem: { item: i },
+								});
+								break;
 							}
-						}
 
-						// V3 API: extract() is on stagehand, not page
-						// Cast to any to avoid TypeScript deep instantiation error
-						const extractResult = await (stagehand.extract as any)(instruction, schema);
-						results.push({
-							json: {
-								operation,
-								result: extractResult,
-								...(logMessages ? { messages: sanitizeMessages(messages) } : {}),
-							},
-						});
-						break;
-					}
+							case 'agent': {
+								const instructionsRaw = this.getNodeParameter('instructions', i, '') as string;
+								const instruction = instructionsRaw.trim();
+								const maxSteps = this.getNodeParameter('maxSteps', i, 10) as number;
+								const outputSteps = this.getNodeParameter('outputSteps', i, false) as boolean;
+								const agentContext = this.getNodeParameter('agentContext', i, '') as string;
 
-					case 'observe': {
-						const instructionsRaw = this.getNodeParameter('instructions', i, '') as string;
-						const instruction = instructionsRaw.split('\n')[0]?.trim() || '';
+								// Extract After Agent options
+								const extractAfterAgent = this.getNodeParameter('extractAfterAgent', i, false) as boolean;
 
-						// V3 API: observe() is on stagehand, not page
-						results.push({
-							json: {
-								operation,
-								result: await stagehand.observe(instruction),
-								...(logMessages ? { messages: sanitizeMessages(messages) } : {}),
-							},
-						});
-						break;
-					}
+								log.info('Running agent', { mode: agentMode, maxSteps, extractAfterAgent });
 
-					case 'agent': {
-						const instructionsRaw = this.getNodeParameter('instructions', i, '') as string;
-						const instruction = instructionsRaw.trim();
-						const maxSteps = this.getNodeParameter('maxSteps', i, 10) as number;
-						const agentMode = this.getNodeParameter('agentMode', i, 'dom') as 'dom';
-						const agentContext = this.getNodeParameter('agentContext', i, '') as string;
-
-						// Extract After Agent options
-						const extractAfterAgent = this.getNodeParameter('extractAfterAgent', i, false) as boolean;
-
-						console.log('[Stagehand Debug] Agent mode:', agentMode);
-						console.log('[Stagehand Debug] Max steps:', maxSteps);
-
-						// Parse extract schema BEFORE agent execution so we can pass it
-						// as output schema to the agent (used in discovery mode)
-						let extractSchema: z.ZodObject<any> | null = null;
-						if (extractAfterAgent) {
-							console.log('[Stagehand Debug] Extract After Agent: enabled');
-							const extractSchemaSource = this.getNodeParameter('extractSchemaSource', i, 'jsonSchema') as string;
-							if (extractSchemaSource === 'fieldList') {
-								const fields = this.getNodeParameter('extractFields.field', i, []) as any[];
-								extractSchema = Stagehand.fieldsToZodSchema(fields);
-							} else {
-								const jsonSchema = this.getNodeParameter('extractJsonSchema', i, '{}') as string;
-								extractSchema = new Function('z', `return ${jsonSchemaToZod(JSON.parse(jsonSchema))};`)(z);
-							}
-						}
+								// Parse extract schema BEFORE agent execution so we can pass it
+								// as output schema to the agent (used in discovery mode)
+								let extractSchema: z.ZodObject<any> | null = null;
+								if (extractAfterAgent) {
+									const extractSchemaSource = this.getNodeParameter('extractSchemaSource', i, 'jsonSchema') as string;
+									if (extractSchemaSource === 'fieldList') {
+										const fields = this.getNodeParameter('extractFields.field', i, []) as Field[];
+										extractSchema = fieldsToZodSchema(fields);
+									} else {
+										const jsonSchema = this.getNodeParameter('extractJsonSchema', i, '{}');
+										extractSchema = jsonSchemaToZodSchema(parseJsonParameter(jsonSchema, 'Extract JSON Schema'));
+									}
+								}
 
-						// Create agent with mode and execute
-						// agentContext goes as systemPrompt on agent(), NOT context on execute()
-						const agent = stagehand.agent({
-							mode: agentMode,
-							...(agentContext ? { systemPrompt: agentContext } : {}),
-						});
-						const agentResult = await agent.execute({
-							instruction,
-							maxSteps,
-						});
+								// Create agent with mode and execute
+								// agentContext goes as systemPrompt on agent(), NOT context on execute()
+								// With variables, the act tool is swapped for one that fills them in, and
+								// fillForm is excluded so values can only be typed through that tool
+								let systemPrompt = agentContext;
+								if (hasVariables) {
+									const variableNames = Object.keys(variables).map(name => `%${name}%`).join(', ');
+									const variablesPrompt = `Secret values are available as variables: ${variableNames}. Type them with the act tool by writing the variable name.`;
+									systemPrompt = systemPrompt ? `${systemPrompt}\n\n${variablesPrompt}` : variablesPrompt;
+								}
+								// Coordinates read off a screenshot only land where intended when the page has
+								// the viewport size the agent expects and one screenshot pixel per CSS pixel
+								let viewport: { width: number; height: number } | undefined;
+								if (agentMode !== 'dom') {
+									viewport = stagehand.configuredViewport;
+									await page.setViewportSize(viewport.width, viewport.height, { deviceScaleFactor: 1 });
+								}
+								// Hybrid agents type and fill forms at coordinates, only the act tool fills in variables
+								const excludeTools = [
+									...getDeniedTools(guardrails),
+									...(hasVariables ? (agentMode === 'hybrid' ? ['type', 'fillFormVision'] : ['fillForm']) : []),
+								];
+								// Each step is recorded as it finishes so the budget can stop the agent mid-run,
+								// as can the guardrails
+								const abortController = new AbortController();
+								let stopError: BudgetExceededError | GuardrailViolationError | undefined;
+								const stop = (error: BudgetExceededError | GuardrailViolationError) => {
+									if (!stopError) {
+										log.warn('Stopping the agent', { reason: error.message });
+										stopError = error;
+										abortController.abort(error);
+									}
+								};
+								// Denied actions are refused before act() runs them. Computer use agents have no act tool.
+								const refuseAction = (action: string) => {
+									const violation = checkAction(guardrails, undefined, action);
+									if (violation) {
+										stop(new GuardrailViolationError(violation));
+									}
+									return violation?.message;
+								};
+								const replaceAct =
+									(hasVariables || (guardrails.deniedActions.length > 0 && agentMode !== 'cua')) &&
+									!excludeTools.includes('act');
+								const agent = stagehand.agent({
+									mode: agentMode,
+									// Computer use agents run on their own client, built from the connected model
+									...(agentMode === 'cua' ? { model: resolvedModel.configuration } : {}),
+									...(systemPrompt ? { systemPrompt } : {}),
+									...(replaceAct ? { tools: { act: createActTool(stagehand, variables, refuseAction) } } : {}),
+								});
+								let stepCount = 0;
+								let stepStartedAt = Date.now();
+								let stepFirstCall = ledger.calls.length;
+								ledger.label = 'step 1';
+								let agentResult: AgentResult;
+								// Computer use agents report no steps. They capture the page after every action,
+								// which is when their screenshots are taken instead.
+								const actionScreenshots: Array<Promise<CapturedScreenshot | undefined>> = [];
+								const onActionScreenshot = () => {
+									if (takeScreenshots && screenshotOptions.timing === 'afterEach') {
+										actionScreenshots.push(
+											captureScreenshot(page, screenshotOptions, `action_${actionScreenshots.length + 1}`),
+										);
+									}
+								};
+								const detachGuardrails = hasGuardrails(guardrails)
+									? await attachGuardrails(page, guardrails, (violation) =>
+											stop(new GuardrailViolationError(violation)),
+										)
+									: undefined;
+								try {
+									if (agentMode === 'cua') {
+										stagehand.bus.on('agent_screenshot_taken_event', onActionScreenshot);
+									}
+									agentResult = await agent.execute({
+										instruction,
+										maxSteps,
+										// Computer use agents cannot be aborted, their budget is checked after the run
+										...(agentMode === 'cua' ? {} : { signal: abortController.signal }),
+										...(excludeTools.length > 0 ? { excludeTools } : {}),
+										callbacks: {
+											onStepFinish: async (step) => {
+												stepCount++;
+												lastSuccessfulStep = `step ${stepCount}`;
+												log.debug('Agent step finished', {
+													step: stepCount,
+													tools: step.toolCalls.map((call) => call.toolName),
+													url: page.url(),
+												});
+												// act() calls of the step's tools, then the step itself
+												await recordUsage(stagehand, ledger);
+												recordLlmCall(ledger, {
+													function: 'agent',
+													prompt_tokens: step.usage?.inputTokens ?? 0,
+													completion_tokens: step.usage?.outputTokens ?? 0,
+													reasoning_tokens: step.usage?.reasoningTokens ?? 0,
+													cached_input_tokens: step.usage?.cachedInputTokens ?? 0,
+													inference_time_ms: Date.now() - stepStartedAt,
+												});
+												ledger.agentStepsRecorded = true;
+												const stepCalls = ledger.calls.slice(stepFirstCall);
+												ledger.label = `step ${stepCount + 1}`;
+												stepStartedAt = Date.now();
+												stepFirstCall = ledger.calls.length;
+												try {
+													checkBudget(ledger);
+												} catch (error) {
+													stop(error as BudgetExceededError);
+												}
+												// Actions without an act() call, like hybrid clicks, can only be checked afterwards
+												for (const call of step.toolCalls) {
+													const text = Object.values((call.input ?? {}) as IDataObject)
+														.filter((value) => typeof value === 'string')
+														.join(' ');
+													const violation = checkAction(guardrails, call.toolName, text);
+													if (violation) {
+														stop(new GuardrailViolationError(violation));
+													}
+												}
+												// Pages the agent switched to are not intercepted
+												const urlViolation = checkUrl(guardrails, stagehand.context.activePage()?.url() ?? '');
+												if (urlViolation) {
+													stop(new GuardrailViolationError(urlViolation));
+												}
 
-						// Take final screenshot if enabled
-						const screenshotPaths: string[] = [];
-						if (takeScreenshots) {
-							const timestamp = Date.now();
-							const screenshotPath = await takeScreenshot(page, screenshotsFolder, `agent-final-${timestamp}`);
-							screenshotPaths.push(screenshotPath);
-							console.log('[Stagehand Debug] Screenshot saved:', screenshotPath);
-						}
+												if (!outputSteps) {
+													await screenshot('afterEach', `step_${stepCount}`);
+													return;
+												}
+												const stepScreenshots: CapturedScreenshot[] = [];
+												await screenshot('afterEach', `step_${stepCount}`, stepScreenshots);
+												const stepItem: INodeExecutionData = {
+													json: redactSecrets({
+														operation,
+														step: stepCount,
+														mode: agentMode,
+														actions: step.toolCalls.map(call => ({
+															type: call.toolName,
+															parameters: call.input,
+														})),
+														reasoning: step.text,
+														finishReason: step.finishReason,
+														url: page.url(),
+														usage: summarizeUsage(stepCalls, ledger.price),
+														...(session ? { sessionId: session.id } : {}),
+													}, variables),
+													pairedItem: { item: i },
+												};
+												if (stepScreenshots.length > 0) {
+													const { binary, summary } = await screenshotsToBinary.call(
+														this,
+														stepScreenshots,
+														screenshotOptions.format,
+													);
+													stepItem.binary = binary;
+													stepItem.json.screenshots = summary;
+												}
+												stepItems.push(stepItem);
+											},
+										},
+									});
+								} catch (error) {
+									throw stopError ?? error;
+								} finally {
+									await recordUsage(stagehand, ledger);
+									ledger.label = undefined;
+									await detachGuardrails?.();
+									stagehand.bus.off('agent_screenshot_taken_event', onActionScreenshot);
+									for (const captured of await Promise.all(actionScreenshots)) {
+										if (captured) {
+											screenshots.push(captured);
+										}
+									}
+								}
+								if (stopError) {
+									throw stopError;
+								}
+								if (agentMode === 'cua') {
+									// Their usage is reported as one LLM call once the run is over
+									checkBudget(ledger);
+									stepCount = agentResult.actions.length;
+									if (outputSteps) {
+										agentResult.actions.forEach((action, index) => {
+											const { type, reasoning, pageUrl, timestamp, taskCompleted, ...parameters } = action;
+											stepItems.push({
+												json: {
+													operation,
+													step: index + 1,
+													mode: agentMode,
+													actions: [{ type, parameters }],
+													reasoning,
+													url: pageUrl,
+													...(session ? { sessionId: session.id } : {}),
+												},
+												pairedItem: { item: i },
+											});
+										});
+									}
+								}
+
+								// Detect cache hit from messages (more reliable)
+								const isCacheHit = detectCacheHit(messages);
+								const selfHealUsed = detectSelfHealUsed(messages);
+								if (cacheDir && isCacheHit) {
+									await recordCacheHits(cacheDir, messages);
+								}
+
+								// Cache-aware extraction:
+								// - Discovery (no cache): agent() internally does act/observe/extract
+								//   as part of its autonomous work. Post-extract is skipped.
+								//   extractResult comes from the agent's own output.
+								// - Replay (cache hit): act() steps replayed from cache (0 tokens),
+								//   then post-extract runs fresh with LLM for structured data.
+								let extractResult: any = null;
+								let extractUsage: any = null;
+								if (extractAfterAgent && isCacheHit) {
+									// Replay: run post-extract with LLM
+									log.debug('Agent replayed from cache, extracting the result');
+									const extractInstr = this.getNodeParameter('extractInstruction', i, '') as string;
+
+									const callsBeforeExtract = ledger.calls.length;
+									extractResult = await (stagehand.extract as any)(extractInstr, extractSchema);
+									await recordUsage(stagehand, ledger);
+									extractUsage = summarizeUsage(ledger.calls.slice(callsBeforeExtract), ledger.price);
+									checkBudget(ledger);
+								} else if (extractAfterAgent && !isCacheHit) {
+									// Discovery: agent handled extraction internally.
+									// Find the extract action in the agent's actions array to get the actual extracted data.
+									const extractAction = agentResult.actions.find((a: any) => a.type === 'extract');
+									log.debug('Looking for the extract action of the agent', {
+										actions: agentResult.actions.map((action) => action.type),
+										found: extractAction !== undefined,
+									});
+									if (extractAction) {
+										// Try different possible locations for extract data
+										extractResult = extractAction.result || extractAction.data || extractAction.output || extractAction;
+									} else {
+										// Fallback to agent's message if no extract action found
+										extractResult = { data: agentResult.message };
+									}
+								}
+
+								// Simplify actions for cleaner output
+								const simplifiedActions = agentResult.actions.map((action: any) => ({
+									type: action.type,
+									reasoning: action.reasoning,
+									parameters: action.parameters,
+									taskCompleted: action.taskCompleted,
+								}));
+
+								// Workaround: Vercel AI SDK bug causes ModelMessage[] error on 'done' tool
+								// even when extraction succeeded. If we have extractResult, consider it successful.
+								const effectiveSuccess = agentResult.success || (extractAfterAgent && extractResult != null);
 
-						// Extract usage from aisdk messages (contains token counts)
-						const usage = extractUsageFromMessages(messages);
-
-						// Detect cache hit from messages (more reliable)
-						const isCacheHit = detectCacheHit(messages);
-						const selfHealUsed = detectSelfHealUsed(messages);
-
-						// Cache-aware extraction:
-						// - Discovery (no cache): agent() internally does act/observe/extract
-						//   as part of its autonomous work. Post-extract is skipped.
-						//   extractResult comes from the agent's own output.
-						// - Replay (cache hit): act() steps replayed from cache (0 tokens),
-						//   then post-extract runs fresh with LLM for structured data.
-						let extractResult: any = null;
-						let extractUsage: any = null;
-						if (extractAfterAgent && isCacheHit) {
-							// Replay: run post-extract with LLM
-							console.log('[Stagehand Debug] Replay mode - running post-extract');
-							const extractInstr = this.getNodeParameter('extractInstruction', i, '') as string;
-
-							const messagesBeforeExtract = messages.length;
-							extractResult = await (stagehand.extract as any)(extractInstr, extractSchema);
-							const extractMessages = messages.slice(messagesBeforeExtract);
-							extractUsage = extractUsageFromMessages(extractMessages);
-							console.log('[Stagehand Debug] Post-extract completed');
-						} else if (extractAfterAgent && !isCacheHit) {
-							// Discovery: agent handled extraction internally.
-							// Find the extract action in the agent's actions array to get the actual extracted data.
-							console.log('[Stagehand Debug] Discovery mode - looking for extract action in agent results');
-							console.log('[Stagehand Debug] All actions:', JSON.stringify(agentResult.actions, null, 2));
-							const extractAction = agentResult.actions.find((a: any) => a.type === 'extract');
-							if (extractAction) {
-								console.log('[Stagehand Debug] Found extract action:', JSON.stringify(extractAction, null, 2));
-								// Try different possible locations for extract data
-								extractResult = extractAction.result || extractAction.data || extractAction.output || extractAction;
-							} else {
-								// Fallback to agent's message if no extract action found
-								console.log('[Stagehand Debug] No extract action found, using agent message');
-								extractResult = { data: agentResult.message };
+								results.push(...stepItems);
+								results.push({
+									json: redactSecrets({
+										operation,
+										success: effectiveSuccess,
+										message: agentResult.message,
+										completed: agentResult.completed || effectiveSuccess,
+										actions: simplifiedActions,
+										actionCount: agentResult.actions.length,
+										stepCount,
+										mode: agentMode,
+										...(viewport ? { viewport } : {}),
+										cacheHit: isCacheHit,
+										selfHealUsed,
+										...(extractResult ? { extractResult, extractUsage } : {}),
+										...(cacheDir ? { cacheDir } : {}),
+										usage: getUsageReport(ledger),
+										currentUrl: page.url(),
+										...(session ? { sessionId: session.id } : {}),
+										...(logMessages ? { messages: sanitizeMessages(messages, verbose) } : {}),
+									}, variables),
+									pairedItem: { item: i },
+								});
+								break;
 							}
-							console.log('[Stagehand Debug] Agent extractResult:', JSON.stringify(extractResult));
-						}
 
-						// Simplify actions for cleaner output
-						const simplifiedActions = agentResult.actions.map((action: any) => ({
-							type: action.type,
-							reasoning: action.reasoning,
-							parameters: action.parameters,
-							taskCompleted: action.taskCompleted,
-						}));
+							default: {
+								throw new ApplicationError(`Unsupported operation: ${operation}`);
+							}
+						}
 
-						// Workaround: Vercel AI SDK bug causes ModelMessage[] error on 'done' tool
-						// even when extraction succeeded. If we have extractResult, consider it successful.
-						const effectiveSuccess = agentResult.success || (extractAfterAgent && extractResult != null);
+						await screenshot('final', 'final');
+						log.info('Stagehand operation finished', { operation, url: page.url() });
+					} catch (error) {
+						// Calls that failed are not recorded at their call site
+						await recordUsage(stagehand, ledger).catch(() => undefined);
+						if (error instanceof GuardrailViolationError) {
+							partialOutput.guardrailViolation = error.violation;
+						}
+						const code = classifyStagehandError(error);
+						log.error('Stagehand operation failed', { operation, code, error: error.message, lastSuccessfulStep });
+						const nodeError = new NodeOperationError(this.getNode(), error as Error, {
+							message: `Error executing Stagehand operation: ${error.message}`,
+							description: `Error code: ${code}`,
+							itemIndex: i,
+						});
+						if (!errorOutput && !this.continueOnFail()) {
+							throw nodeError;
+						}
 
-						results.push({
-							json: {
+						await screenshot('onError', 'error');
+						results.push(...stepItems);
+						itemOutput = errorOutput ? failedItems : results;
+						itemOutput.push({
+							error: nodeError,
+							json: redactSecrets({
 								operation,
-								success: effectiveSuccess,
-								message: agentResult.message,
-								completed: agentResult.completed || effectiveSuccess,
-								actions: simplifiedActions,
-								actionCount: agentResult.actions.length,
-								mode: agentMode,
-								cacheHit: isCacheHit,
-								selfHealUsed,
-								...(extractResult ? { extractResult, extractUsage } : {}),
-								...(cacheDir ? { cacheDir } : {}),
-								usage,
-								currentUrl: page.url(),
-								...(screenshotPaths.length > 0 ? { screenshots: screenshotPaths } : {}),
-								...(logMessages ? { messages: sanitizeMessages(messages) } : {}),
-							},
+								...partialOutput,
+								error: getErrorDetails(error, code, { url: activePage?.url(), lastSuccessfulStep }),
+								...(ledger.calls.length > 0 ? { usage: getUsageReport(ledger) } : {}),
+								...(session ? { sessionId: session.id } : {}),
+								...(logMessages ? { messages: sanitizeMessages(messages, verbose) } : {}),
+							}, variables),
+							pairedItem: { item: i },
 						});
-						break;
+					} finally {
+						networkReport = await detachNetwork?.().catch(() => undefined);
+						for (const removeInitScript of initScriptRemovals) {
+							// The page may have closed in the meantime
+							await removeInitScript().catch(() => undefined);
+						}
+						// Listing the open tabs lets later nodes pick the one to work on
+						tabs = await listTabs(stagehand.context.pages(), activePage);
+						if (this.getNodeParameter('options.exportStorageState', i, false) as boolean) {
+							const domains = toDomains(this.getNodeParameter('options.storageStateDomains', i, '') as string);
+							exportedState = await exportStorageState(toStorageBrowser(stagehand), domains).catch((error) => {
+								log.warn('Could not export the storage state', { error: (error as Error).message });
+								return undefined;
+							});
+						}
+						if (session) {
+							touchSession(session);
+						} else {
+							await stagehand.close();
+						}
 					}
 
-					default: {
-						throw new ApplicationError(`Unsupported operation: ${operation}`);
+					// The result or error item is the last one pushed, after any agent step items
+					const item = itemOutput[itemOutput.length - 1];
+					item.json.tabs = redactSecrets(tabs, variables);
+					if (networkReport) {
+						item.json.network = redactSecrets(networkReport, variables) as unknown as IDataObject;
+					}
+					if (exportedState) {
+						item.json.storageState = exportedState as unknown as IDataObject;
+					}
+					if (log.trace) {
+						item.json.trace = log.trace;
 					}
+					if (screenshots.length > 0) {
+						const { binary, summary } = await screenshotsToBinary.call(
+							this,
+							screenshots,
+							screenshotOptions.format,
+						);
+						item.binary = binary;
+						item.json.screenshots = summary;
+					}
+				} catch (error) {
+					// The operation failed and "continue on fail" is off, or the item failed before
+					// the operation ran, e.g. on an unreachable browser or an invalid parameter
+					const code = classifyStagehandError(error);
+					// Errors of the operation itself were logged when they were caught
+					if (!(error instanceof NodeOperationError)) {
+						log.error('Stagehand operation failed', { operation, code, error: error.message });
+					}
+					const nodeError =
+						error instanceof NodeOperationError
+							? error
+							: new NodeOperationError(this.getNode(), error as Error, {
+									message: `Error executing Stagehand operation: ${error.message}`,
+									description: `Error code: ${code}`,
+									itemIndex: i,
+								});
+					if (!errorOutput && !this.continueOnFail()) {
+						throw nodeError;
+					}
+
+					(errorOutput ? failedItems : results).push({
+						error: nodeError,
+						json: {
+							operation,
+							error: getErrorDetails(error, code),
+							...(log.trace ? { trace: log.trace } : {}),
+						},
+						pairedItem: { item: i },
+					});
 				}
-			} catch (error) {
-				results.push({
-					error: new NodeOperationError(this.getNode(), error as Error, {
-						message: `Error executing Stagehand operation: ${error.message}`,
-					}),
-					json: {
-						operation,
-						...(logMessages ? { messages: sanitizeMessages(messages) } : {}),
-					},
-				});
-			} finally {
-				await stagehand.close();
+			}
+		} finally {
+			// Also when an item stopped the execution
+			for (const sessionId of sessionsToClose) {
+				await closeSession(sessionId);
 			}
 		}
 
-		return [results];
+		return errorOutput ? [results, failedItems] : [results];
 	}
 
-	static isChatInstance(model: unknown): model is BaseChatModel {
-		const namespace = (model as BaseLLM)?.lc_namespace ?? [];
+	static async manageCache(
+		this: IExecuteFunctions,
+		cacheAction: string,
+		cacheDir: string,
+		itemIndex: number,
+	): Promise<IDataObject> {
+		switch (cacheAction) {
+			case 'list': {
+				const entries = await listCacheEntries(cacheDir);
+				return {
+					entries,
+					entryCount: entries.length,
+					totalSizeBytes: entries.reduce((total, entry) => total + entry.sizeBytes, 0),
+				};
+			}
 
-		return namespace.includes('chat_models');
-	}
+			case 'inspect': {
+				const entryId = this.getNodeParameter('cacheEntryId', itemIndex) as string;
+				return {
+					entry: await inspectCacheEntry(cacheDir, entryId.trim()),
+				};
+			}
 
-	static fieldsToZodSchema(fields: Field[]): z.ZodObject<any> {
-		const shape: Record<string, ZodTypeAny> = {};
-
-		for (const { fieldName, fieldType, optional } of fields) {
-			let zType: ZodTypeAny;
-
-			switch (fieldType) {
-				case 'string':
-					zType = z.string();
-					break;
-				case 'number':
-					zType = z.number();
-					break;
-				case 'boolean':
-					zType = z.boolean();
-					break;
-				case 'array':
-					zType = z.array(z.any());
-					break; // puoi espandere
-				case 'object':
-					zType = z.object({}).passthrough();
-					break;
-				default:
-					zType = z.any();
+			case 'invalidate': {
+				const filters = this.getNodeParameter('cacheFilters', itemIndex, {}) as CacheFilters;
+				const removed = await invalidateCacheEntries(cacheDir, filters);
+				return {
+					removed,
+					removedCount: removed.length,
+				};
 			}
 
-			shape[fieldName] = optional ? zType.optional() : zType;
+			case 'size': {
+				const entries = await listCacheEntries(cacheDir);
+				return {
+					entryCount: entries.length,
+					actEntryCount: entries.filter((entry) => entry.type === 'act').length,
+					agentEntryCount: entries.filter((entry) => entry.type === 'agent').length,
+					totalSizeBytes: entries.reduce((total, entry) => total + entry.sizeBytes, 0),
+				};
+			}
+
+			default: {
+				throw new ApplicationError(`Unsupported cache action: ${cacheAction}`);
+			}
 		}
+	}
 
-		return z.object(shape);
+	static isChatInstance(model: unknown): model is BaseChatModel {
+		const namespace = (model as BaseLLM)?.lc_namespace ?? [];
+
+		return namespace.includes('chat_models');
 	}
 }
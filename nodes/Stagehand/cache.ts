@@ -0,0 +1,237 @@
+import type { LogLine } from '@browserbasehq/stagehand';
+import { promises as fs } from 'fs';
+import { ApplicationError } from 'n8n-workflow';
+import path from 'path';
+
+// Stagehand stores one JSON file per entry: `<sha256>.json` for act, `agent-<sha256>.json` for agent
+const ENTRY_FILE_PATTERN = /^(agent-)?[0-9a-f]{64}\.json$/;
+
+// Hit counts are not tracked by Stagehand, so the node keeps them in a sidecar file
+const STATS_FILE = '.n8n-cache-stats.json';
+
+type CacheStats = Record<string, { hits: number; lastHitAt: string }>;
+
+export type CacheEntrySummary = {
+	id: string;
+	type: 'act' | 'agent';
+	instruction: string;
+	url: string;
+	createdAt: string;
+	hits: number;
+	lastHitAt: string | null;
+	stepCount: number;
+	sizeBytes: number;
+};
+
+export type CacheFilters = {
+	entryType?: 'act' | 'agent';
+	instructionContains?: string;
+	urlPattern?: string;
+	olderThanHours?: number;
+};
+
+type CacheEntry = {
+	summary: CacheEntrySummary;
+	steps: unknown[];
+	raw: Record<string, any>;
+};
+
+async function readStats(cacheDir: string): Promise<CacheStats> {
+	try {
+		return JSON.parse(await fs.readFile(path.join(cacheDir, STATS_FILE), 'utf8'));
+	} catch {
+		return {};
+	}
+}
+
+async function writeStats(cacheDir: string, stats: CacheStats): Promise<void> {
+	await fs.writeFile(path.join(cacheDir, STATS_FILE), JSON.stringify(stats, null, 2), 'utf8');
+}
+
+async function readEntry(cacheDir: string, fileName: string, stats: CacheStats): Promise<CacheEntry> {
+	const filePath = path.join(cacheDir, fileName);
+	const [raw, stat] = await Promise.all([fs.readFile(filePath, 'utf8'), fs.stat(filePath)]);
+	const entry = JSON.parse(raw);
+	const id = fileName.slice(0, -'.json'.length);
+	const type = id.startsWith('agent-') ? 'agent' : 'act';
+	const steps: unknown[] = (type === 'agent' ? entry.steps : entry.actions) ?? [];
+
+	return {
+		summary: {
+			id,
+			type,
+			instruction: entry.instruction ?? '',
+			url: (type === 'agent' ? entry.startUrl : entry.url) ?? '',
+			// Agent entries carry their own timestamp, act entries are rewritten on every recording
+			createdAt: entry.timestamp ?? stat.mtime.toISOString(),
+			hits: stats[id]?.hits ?? 0,
+			lastHitAt: stats[id]?.lastHitAt ?? null,
+			stepCount: steps.length,
+			sizeBytes: stat.size,
+		},
+		steps,
+		raw: entry,
+	};
+}
+
+async function readEntries(cacheDir: string): Promise<CacheEntry[]> {
+	let fileNames: string[];
+	try {
+		fileNames = await fs.readdir(cacheDir);
+	} catch (error) {
+		if (error.code === 'ENOENT') {
+			return [];
+		}
+		throw error;
+	}
+
+	const stats = await readStats(cacheDir);
+	const entries: CacheEntry[] = [];
+	for (const fileName of fileNames.filter((name) => ENTRY_FILE_PATTERN.test(name))) {
+		try {
+			entries.push(await readEntry(cacheDir, fileName, stats));
+		} catch {
+			// Skip entries that are being written or are corrupted
+		}
+	}
+
+	return entries.sort((a, b) => b.summary.createdAt.localeCompare(a.summary.createdAt));
+}
+
+function wildcardToRegExp(pattern: string): RegExp {
+	const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+	return new RegExp(`^${escaped}$`, 'i');
+}
+
+function matchesFilters(summary: CacheEntrySummary, filters: CacheFilters): boolean {
+	if (filters.entryType && summary.type !== filters.entryType) {
+		return false;
+	}
+	if (
+		filters.instructionContains &&
+		!summary.instruction.toLowerCase().includes(filters.instructionContains.toLowerCase())
+	) {
+		return false;
+	}
+	if (filters.urlPattern && !wildcardToRegExp(filters.urlPattern).test(summary.url)) {
+		return false;
+	}
+	if (filters.olderThanHours !== undefined) {
+		const ageMs = Date.now() - new Date(summary.createdAt).getTime();
+		if (ageMs < filters.olderThanHours * 60 * 60 * 1000) {
+			return false;
+		}
+	}
+
+	return true;
+}
+
+/**
+ * List the act and agent entries stored in a cache directory, newest first.
+ */
+export async function listCacheEntries(cacheDir: string): Promise<CacheEntrySummary[]> {
+	const entries = await readEntries(path.resolve(cacheDir));
+	return entries.map((entry) => entry.summary);
+}
+
+/**
+ * Get a single cache entry with its recorded steps.
+ */
+export async function inspectCacheEntry(
+	cacheDir: string,
+	entryId: string,
+): Promise<CacheEntrySummary & { steps: unknown[]; message?: string }> {
+	const fileName = `${entryId}.json`;
+	if (!ENTRY_FILE_PATTERN.test(fileName)) {
+		throw new ApplicationError(`Invalid cache entry ID: ${entryId}`);
+	}
+
+	const resolved = path.resolve(cacheDir);
+	let entry: CacheEntry;
+	try {
+		entry = await readEntry(resolved, fileName, await readStats(resolved));
+	} catch (error) {
+		if (error.code === 'ENOENT') {
+			throw new ApplicationError(`Cache entry "${entryId}" does not exist in ${resolved}`);
+		}
+		throw error;
+	}
+
+	return {
+		...entry.summary,
+		steps: entry.steps,
+		message: entry.summary.type === 'agent' ? entry.raw.result?.message : entry.raw.message,
+	};
+}
+
+/**
+ * Delete every cache entry matching all of the given filters.
+ */
+export async function invalidateCacheEntries(
+	cacheDir: string,
+	filters: CacheFilters,
+): Promise<CacheEntrySummary[]> {
+	const { entryType, instructionContains, urlPattern, olderThanHours } = filters;
+	if (!entryType && !instructionContains && !urlPattern && olderThanHours === undefined) {
+		throw new ApplicationError(
+			'At least one filter is required to invalidate cache entries. Use "Older Than (Hours)" = 0 to clear the whole cache.',
+		);
+	}
+
+	const resolved = path.resolve(cacheDir);
+	const stats = await readStats(resolved);
+	const removed: CacheEntrySummary[] = [];
+	for (const { summary } of await readEntries(resolved)) {
+		if (!matchesFilters(summary, filters)) {
+			continue;
+		}
+		await fs.rm(path.join(resolved, `${summary.id}.json`), { force: true });
+		delete stats[summary.id];
+		removed.push(summary);
+	}
+
+	if (removed.length > 0) {
+		await writeStats(resolved, stats);
+	}
+
+	return removed;
+}
+
+/**
+ * Count the cache hits reported in Stagehand's log lines against the matching entries.
+ */
+export async function recordCacheHits(cacheDir: string, messages: LogLine[]): Promise<void> {
+	const hits = messages
+		.filter(
+			(msg) =>
+				msg.category === 'cache' &&
+				(msg.message === 'act cache hit' || msg.message === 'agent cache hit'),
+		)
+		.map((msg) => ({
+			type: msg.message === 'agent cache hit' ? 'agent' : 'act',
+			instruction: msg.auxiliary?.instruction?.value,
+			url: msg.auxiliary?.url?.value,
+		}));
+	if (hits.length === 0) {
+		return;
+	}
+
+	const resolved = path.resolve(cacheDir);
+	const entries = await readEntries(resolved);
+	const stats = await readStats(resolved);
+	const now = new Date().toISOString();
+	for (const hit of hits) {
+		const entry = entries.find(
+			({ summary }) =>
+				summary.type === hit.type &&
+				summary.instruction === hit.instruction &&
+				summary.url === hit.url,
+		);
+		if (entry) {
+			const { id } = entry.summary;
+			stats[id] = { hits: (stats[id]?.hits ?? 0) + 1, lastHitAt: now };
+		}
+	}
+
+	await writeStats(resolved, stats);
+}
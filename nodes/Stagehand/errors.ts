@@ -0,0 +1,75 @@
+import {
+	BrowserbaseSessionNotFoundError,
+	ConnectionTimeoutError,
+	ContentFrameNotFoundError,
+	CreateChatCompletionResponseError,
+	ElementNotVisibleError,
+	LLMResponseError,
+	MissingLLMConfigurationError,
+	PageNotFoundError,
+	StagehandClickError,
+	StagehandClosedError,
+	StagehandElementNotFoundError,
+	StagehandEvalError,
+	StagehandInitError,
+	StagehandInvalidArgumentError,
+	StagehandMissingArgumentError,
+	TimeoutError,
+	UnsupportedModelError,
+	UnsupportedModelProviderError,
+	XPathResolutionError,
+	ZodSchemaValidationError,
+} from '@browserbasehq/stagehand';
+import { ApplicationError, NodeOperationError } from 'n8n-workflow';
+import { classifyError, type ErrorCode } from '../shared/errors';
+import { GuardrailViolationError } from './guardrails';
+import { BudgetExceededError } from './usage';
+
+/** An act instruction or observed action that Stagehand could not perform. */
+class ActionFailedError extends ApplicationError {}
+
+// Checked in order, so subclasses come before their parent classes
+const STAGEHAND_ERRORS: Array<[abstract new (...args: never[]) => Error, ErrorCode]> = [
+	[BudgetExceededError, 'BUDGET_EXCEEDED'],
+	[GuardrailViolationError, 'GUARDRAIL_VIOLATION'],
+	[ZodSchemaValidationError, 'SCHEMA_VALIDATION_FAILED'],
+	[StagehandElementNotFoundError, 'ELEMENT_NOT_FOUND'],
+	[ElementNotVisibleError, 'ELEMENT_NOT_FOUND'],
+	[XPathResolutionError, 'ELEMENT_NOT_FOUND'],
+	[ContentFrameNotFoundError, 'ELEMENT_NOT_FOUND'],
+	[StagehandClickError, 'ACTION_FAILED'],
+	[StagehandEvalError, 'SCRIPT_ERROR'],
+	[ConnectionTimeoutError, 'BROWSER_CONNECTION_FAILED'],
+	[StagehandInitError, 'BROWSER_CONNECTION_FAILED'],
+	[BrowserbaseSessionNotFoundError, 'SESSION_NOT_FOUND'],
+	[StagehandClosedError, 'BROWSER_CLOSED'],
+	[PageNotFoundError, 'BROWSER_CLOSED'],
+	[TimeoutError, 'TIMEOUT'],
+	[LLMResponseError, 'LLM_ERROR'],
+	[CreateChatCompletionResponseError, 'LLM_ERROR'],
+	[MissingLLMConfigurationError, 'INVALID_PARAMETER'],
+	[UnsupportedModelError, 'INVALID_PARAMETER'],
+	[UnsupportedModelProviderError, 'INVALID_PARAMETER'],
+	[StagehandInvalidArgumentError, 'INVALID_PARAMETER'],
+	[StagehandMissingArgumentError, 'INVALID_PARAMETER'],
+	// The node's own checks of its parameters
+	[NodeOperationError, 'INVALID_PARAMETER'],
+];
+
+/**
+ * Throw when an act instruction or observed action, named by `description`, failed.
+ */
+export function assertActionSucceeded(report: { success: boolean; error?: string }, description: string): void {
+	if (!report.success) {
+		throw new ActionFailedError(`${description} failed: ${report.error}`);
+	}
+}
+
+/**
+ * Classify an error of the Stagehand node. Failed actions keep a more specific code when
+ * Stagehand's reason for the failure has one.
+ */
+export function classifyStagehandError(error: unknown): ErrorCode {
+	const code = classifyError(error, STAGEHAND_ERRORS);
+	return code === 'UNKNOWN' && error instanceof ActionFailedError ? 'ACTION_FAILED' : code;
+}
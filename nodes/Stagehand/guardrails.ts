@@ -0,0 +1,216 @@
+import type { Page } from '@browserbasehq/stagehand';
+import type { IExecuteFunctions } from 'n8n-workflow';
+import { ApplicationError } from 'n8n-workflow';
+
+export type Guardrails = {
+	allowedDomains: string[];
+	deniedActions: string[];
+	maxDurationMs: number;
+	maxNavigations: number;
+};
+
+export type GuardrailViolation = {
+	guardrail: 'allowedDomains' | 'deniedActions' | 'maxDuration' | 'maxNavigations';
+	message: string;
+	url?: string;
+	action?: string;
+	limit?: number;
+};
+
+export class GuardrailViolationError extends ApplicationError {
+	constructor(readonly violation: GuardrailViolation) {
+		super(violation.message);
+	}
+}
+
+// Tools of Stagehand agents, which denied actions can name to keep them from the agent
+const AGENT_TOOLS = [
+	'act',
+	'ariaTree',
+	'click',
+	'clickAndHold',
+	'dragAndDrop',
+	'extract',
+	'fillForm',
+	'fillFormVision',
+	'goto',
+	'keys',
+	'navback',
+	'screenshot',
+	'scroll',
+	'search',
+	'think',
+	'type',
+	'wait',
+];
+
+type FetchRequestPaused = {
+	requestId: string;
+	networkId?: string;
+	frameId: string;
+	request: { url: string };
+};
+
+function splitList(value: string): string[] {
+	return value
+		.split(',')
+		.map((entry) => entry.trim())
+		.filter((entry) => entry.length > 0);
+}
+
+/**
+ * Read the agent guardrails of an item.
+ */
+export function getGuardrails(this: IExecuteFunctions, itemIndex: number): Guardrails {
+	const maxDuration = this.getNodeParameter('guardrails.maxDuration', itemIndex, 0) as number;
+	return {
+		allowedDomains: splitList(this.getNodeParameter('guardrails.allowedDomains', itemIndex, '') as string).map(
+			(domain) => domain.toLowerCase().replace(/^\*\./, ''),
+		),
+		deniedActions: splitList(this.getNodeParameter('guardrails.deniedActions', itemIndex, '') as string),
+		maxDurationMs: maxDuration * 1000,
+		maxNavigations: this.getNodeParameter('guardrails.maxNavigations', itemIndex, 0) as number,
+	};
+}
+
+export function hasGuardrails(guardrails: Guardrails): boolean {
+	return (
+		guardrails.allowedDomains.length > 0 ||
+		guardrails.deniedActions.length > 0 ||
+		guardrails.maxDurationMs > 0 ||
+		guardrails.maxNavigations > 0
+	);
+}
+
+/**
+ * Agent tools named in the denied actions, to leave out of the agent.
+ */
+export function getDeniedTools(guardrails: Guardrails): string[] {
+	const denied = guardrails.deniedActions.map((entry) => entry.toLowerCase());
+	return AGENT_TOOLS.filter((tool) => denied.includes(tool.toLowerCase()));
+}
+
+/**
+ * Check that a URL is on one of the allowed domains or their subdomains. Pages that
+ * are not loaded over HTTP, like about:blank, are always allowed.
+ */
+export function checkUrl(guardrails: Guardrails, url: string): GuardrailViolation | undefined {
+	if (guardrails.allowedDomains.length === 0) {
+		return undefined;
+	}
+
+	let parsed: URL;
+	try {
+		parsed = new URL(url);
+	} catch {
+		return undefined;
+	}
+	if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+		return undefined;
+	}
+
+	const host = parsed.hostname.toLowerCase();
+	if (guardrails.allowedDomains.some((domain) => host === domain || host.endsWith(`.${domain}`))) {
+		return undefined;
+	}
+
+	return {
+		guardrail: 'allowedDomains',
+		message: `Navigation to ${parsed.origin} was blocked, it is not on an allowed domain`,
+		url: parsed.origin,
+	};
+}
+
+/**
+ * Check an action, by the name of the tool that runs it and the text describing it,
+ * against the denied actions. Words match whole and case-insensitively.
+ */
+export function checkAction(
+	guardrails: Guardrails,
+	tool: string | undefined,
+	text: string,
+): GuardrailViolation | undefined {
+	const action = tool ? (text ? `${tool}: ${text}` : tool) : text;
+	for (const denied of guardrails.deniedActions) {
+		const escaped = denied.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+		if (
+			tool?.toLowerCase() === denied.toLowerCase() ||
+			new RegExp(`(^|\\W)${escaped}(\\W|$)`, 'i').test(text)
+		) {
+			return {
+				guardrail: 'deniedActions',
+				message: `The action "${action}" was blocked, it matches the denied action "${denied}"`,
+				action,
+			};
+		}
+	}
+
+	return undefined;
+}
+
+/**
+ * Enforce the guardrails on the page the agent works on until the returned function is
+ * called: navigations outside the allowed domains or over the limit are blocked. Each
+ * violation is passed to `onViolation`. Denied actions are checked by the agent's act tool.
+ */
+export async function attachGuardrails(
+	page: Page,
+	guardrails: Guardrails,
+	onViolation: (violation: GuardrailViolation) => void,
+): Promise<() => Promise<void>> {
+	const timer =
+		guardrails.maxDurationMs > 0
+			? setTimeout(() => {
+					onViolation({
+						guardrail: 'maxDuration',
+						message: `The agent ran longer than ${guardrails.maxDurationMs / 1000} seconds`,
+						limit: guardrails.maxDurationMs / 1000,
+					});
+				}, guardrails.maxDurationMs)
+			: undefined;
+
+	// Top-level documents are intercepted before they load, redirects keep their network ID
+	const session = page.getSessionForFrame(page.mainFrameId());
+	const navigations = new Set<string>();
+	const onRequestPaused = (event: FetchRequestPaused) => {
+		let violation: GuardrailViolation | undefined;
+		if (event.frameId === page.mainFrameId()) {
+			violation = checkUrl(guardrails, event.request.url);
+			navigations.add(event.networkId ?? event.requestId);
+			if (!violation && guardrails.maxNavigations > 0 && navigations.size > guardrails.maxNavigations) {
+				violation = {
+					guardrail: 'maxNavigations',
+					message: `Navigation to ${event.request.url} was blocked, the agent may navigate ${guardrails.maxNavigations} times`,
+					url: event.request.url,
+					limit: guardrails.maxNavigations,
+				};
+			}
+		}
+
+		if (violation) {
+			onViolation(violation);
+		}
+		const command = violation
+			? session.send('Fetch.failRequest', { requestId: event.requestId, errorReason: 'BlockedByClient' })
+			: session.send('Fetch.continueRequest', { requestId: event.requestId });
+		// The page may have closed in the meantime
+		command.catch(() => {});
+	};
+	const interceptNavigation = guardrails.allowedDomains.length > 0 || guardrails.maxNavigations > 0;
+	if (interceptNavigation) {
+		session.on('Fetch.requestPaused', onRequestPaused);
+		await session.send('Fetch.enable', {
+			patterns: [{ resourceType: 'Document', requestStage: 'Request' }],
+		});
+	}
+
+	return async () => {
+		if (timer) {
+			clearTimeout(timer);
+		}
+		if (interceptNavigation) {
+			session.off('Fetch.requestPaused', onRequestPaused);
+			await session.send('Fetch.disable').catch(() => {});
+		}
+	};
+}
@@ -0,0 +1,427 @@
+import { ApplicationError } from 'n8n-workflow';
+import { z, ZodTypeAny } from 'zod';
+
+// Builders that may be called on `z` and `z.coerce`
+const NAMESPACE_BUILDERS: Record<'z' | 'coerce', Set<string>> = {
+	z: new Set([
+		'any',
+		'array',
+		'bigint',
+		'boolean',
+		'date',
+		'discriminatedUnion',
+		'enum',
+		'intersection',
+		'literal',
+		'nan',
+		'never',
+		'null',
+		'nullable',
+		'number',
+		'object',
+		'optional',
+		'record',
+		'string',
+		'tuple',
+		'undefined',
+		'union',
+		'unknown',
+	]),
+	coerce: new Set(['bigint', 'boolean', 'date', 'number', 'string']),
+};
+
+// Methods that may be called on a schema: builders and modifiers only, so that nothing
+// parses, refines or transforms data while the schema is built
+const SCHEMA_METHODS = new Set([
+	'and',
+	'array',
+	'base64',
+	'catch',
+	'catchall',
+	'cidr',
+	'cuid',
+	'cuid2',
+	'date',
+	'datetime',
+	'deepPartial',
+	'default',
+	'describe',
+	'email',
+	'emoji',
+	'endsWith',
+	'exclude',
+	'extend',
+	'extract',
+	'finite',
+	'gt',
+	'gte',
+	'includes',
+	'int',
+	'ip',
+	'keyof',
+	'length',
+	'lt',
+	'lte',
+	'max',
+	'merge',
+	'min',
+	'multipleOf',
+	'nanoid',
+	'negative',
+	'nonempty',
+	'nonnegative',
+	'nonpositive',
+	'nullable',
+	'nullish',
+	'omit',
+	'optional',
+	'or',
+	'partial',
+	'passthrough',
+	'pick',
+	'positive',
+	'readonly',
+	'regex',
+	'required',
+	'rest',
+	'safe',
+	'startsWith',
+	'step',
+	'strict',
+	'strip',
+	'time',
+	'toLowerCase',
+	'toUpperCase',
+	'trim',
+	'ulid',
+	'unwrap',
+	'url',
+	'uuid',
+]);
+
+type Token = {
+	type: 'punctuation' | 'identifier' | 'string' | 'number' | 'regex';
+	value: string;
+	position: number;
+};
+
+// `z` or `z.coerce` while a builder call is being parsed
+class Namespace {
+	constructor(readonly name: 'z' | 'coerce') {}
+}
+
+type Value =
+	| Namespace
+	| ZodTypeAny
+	| RegExp
+	| string
+	| number
+	| boolean
+	| null
+	| undefined
+	| Value[]
+	| { [key: string]: Value };
+
+/**
+ * Evaluates Manual Zod code without running it as JavaScript. Only literals, arrays,
+ * objects, regular expressions and chained calls of `z.*` builders and schema methods
+ * are understood, so the code cannot reach anything outside of Zod.
+ */
+class ManualZodInterpreter {
+	private readonly tokens: Token[];
+
+	private index = 0;
+
+	constructor(private readonly code: string) {
+		this.tokens = this.tokenize();
+	}
+
+	evaluate(): ZodTypeAny {
+		const value = this.parseExpression();
+		if (this.peek()?.value === ';') {
+			this.index++;
+		}
+		const trailing = this.peek();
+		if (trailing) {
+			throw this.error(`unexpected "${trailing.value}"`, trailing.position);
+		}
+		if (!(value instanceof z.ZodType)) {
+			throw this.error('the code must evaluate to a Zod schema', 0);
+		}
+
+		return value;
+	}
+
+	private error(reason: string, position: number): ApplicationError {
+		const before = this.code.slice(0, position).split('\n');
+		const line = before.length;
+		const column = before[before.length - 1].length + 1;
+
+		return new ApplicationError(`Invalid Manual Zod schema at line ${line}, column ${column}: ${reason}`);
+	}
+
+	private tokenize(): Token[] {
+		const tokens: Token[] = [];
+		const code = this.code;
+		let position = 0;
+
+		while (position < code.length) {
+			const char = code[position];
+
+			if (/\s/.test(char)) {
+				position++;
+			} else if (code.startsWith('//', position)) {
+				const end = code.indexOf('\n', position);
+				position = end === -1 ? code.length : end;
+			} else if (code.startsWith('/*', position)) {
+				const end = code.indexOf('*/', position + 2);
+				if (end === -1) throw this.error('unterminated comment', position);
+				position = end + 2;
+			} else if ('()[]{},.:;-'.includes(char)) {
+				tokens.push({ type: 'punctuation', value: char, position });
+				position++;
+			} else if (char === '"' || char === "'" || char === '`') {
+				tokens.push({ type: 'string', value: this.readString(position), position });
+				position = this.skipQuoted(position, char);
+			} else if (char === '/') {
+				const match = /^\/((?:\\.|\[(?:\\.|[^\]\\])*\]|[^/\\\n[])+)\/([dgimsuy]*)/.exec(code.slice(position));
+				if (!match) throw this.error('invalid regular expression', position);
+				tokens.push({ type: 'regex', value: match[0], position });
+				position += match[0].length;
+			} else if (/[0-9]/.test(char)) {
+				const match = /^(?:0[xX][0-9a-fA-F]+|\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)/.exec(code.slice(position))!;
+				tokens.push({ type: 'number', value: match[0], position });
+				position += match[0].length;
+			} else if (/[A-Za-z_$]/.test(char)) {
+				const match = /^[A-Za-z_$][\w$]*/.exec(code.slice(position))!;
+				tokens.push({ type: 'identifier', value: match[0], position });
+				position += match[0].length;
+			} else {
+				throw this.error(`unexpected character "${char}"`, position);
+			}
+		}
+
+		return tokens;
+	}
+
+	private skipQuoted(start: number, quote: string): number {
+		let position = start + 1;
+		while (position < this.code.length && this.code[position] !== quote) {
+			if (this.code[position] === '\\') position++;
+			if (quote !== '`' && this.code[position] === '\n') break;
+			position++;
+		}
+		if (this.code[position] !== quote) {
+			throw this.error('unterminated string', start);
+		}
+
+		return position + 1;
+	}
+
+	private readString(start: number): string {
+		const quote = this.code[start];
+		const raw = this.code.slice(start + 1, this.skipQuoted(start, quote) - 1);
+		if (quote === '`' && raw.includes('${')) {
+			throw this.error('template literal placeholders are not allowed', start);
+		}
+
+		const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f', v: '\v', 0: '\0' };
+		return raw.replace(/\\(u[0-9a-fA-F]{4}|x[0-9a-fA-F]{2}|\r?\n|.)/g, (_, escape: string) => {
+			if (escape.length > 1 && (escape[0] === 'u' || escape[0] === 'x')) {
+				return String.fromCharCode(parseInt(escape.slice(1), 16));
+			}
+			if (escape.includes('\n')) {
+				return '';
+			}
+			return escapes[escape] ?? escape;
+		});
+	}
+
+	private peek(): Token | undefined {
+		return this.tokens[this.index];
+	}
+
+	private next(): Token {
+		const token = this.tokens[this.index++];
+		if (!token) {
+			throw this.error('unexpected end of code', this.code.length);
+		}
+
+		return token;
+	}
+
+	private expect(value: string): Token {
+		const token = this.next();
+		if (token.value !== value || token.type === 'string') {
+			throw this.error(`expected "${value}" but found "${token.value}"`, token.position);
+		}
+
+		return token;
+	}
+
+	private parseList<T>(close: string, parseItem: () => T): T[] {
+		const items: T[] = [];
+		while (this.peek()?.value !== close) {
+			items.push(parseItem());
+			if (this.peek()?.value !== close) {
+				this.expect(',');
+			}
+		}
+		this.expect(close);
+
+		return items;
+	}
+
+	private parseExpression(): Value {
+		let value = this.parsePrimary();
+
+		while (this.peek()?.value === '.') {
+			this.index++;
+			const name = this.next();
+			if (name.type !== 'identifier') {
+				throw this.error(`expected a method name but found "${name.value}"`, name.position);
+			}
+
+			// z.coerce is the only property that is not called
+			if (value instanceof Namespace && value.name === 'z' && name.value === 'coerce') {
+				value = new Namespace('coerce');
+				continue;
+			}
+
+			this.expect('(');
+			const args = this.parseList(')', () => this.parseExpression());
+			value = this.call(value, name, args);
+		}
+
+		return value;
+	}
+
+	private call(receiver: Value, name: Token, args: Value[]): ZodTypeAny {
+		let method: ((...args: unknown[]) => unknown) | undefined;
+		let target: unknown;
+
+		if (receiver instanceof Namespace) {
+			if (!NAMESPACE_BUILDERS[receiver.name].has(name.value)) {
+				const prefix = receiver.name === 'z' ? 'z' : 'z.coerce';
+				throw this.error(`"${prefix}.${name.value}" is not an allowed Zod builder`, name.position);
+			}
+			target = receiver.name === 'z' ? z : z.coerce;
+			method = (target as Record<string, (...args: unknown[]) => unknown>)[name.value];
+		} else if (receiver instanceof z.ZodType) {
+			const candidate = (receiver as unknown as Record<string, unknown>)[name.value];
+			if (!SCHEMA_METHODS.has(name.value)) {
+				throw this.error(`"${name.value}" is not an allowed Zod schema method`, name.position);
+			}
+			if (typeof candidate !== 'function') {
+				throw this.error(`"${name.value}" is not a method of this Zod schema`, name.position);
+			}
+			target = receiver;
+			method = candidate as (...args: unknown[]) => unknown;
+		} else {
+			throw this.error(`"${name.value}" can only be called on z or on a Zod schema`, name.position);
+		}
+
+		let result: unknown;
+		try {
+			result = method.apply(target, args);
+		} catch (error) {
+			throw this.error(`${name.value}() failed: ${(error as Error).message}`, name.position);
+		}
+		if (!(result instanceof z.ZodType)) {
+			throw this.error(`"${name.value}" does not return a Zod schema`, name.position);
+		}
+
+		return result;
+	}
+
+	private parsePrimary(): Value {
+		const token = this.next();
+
+		switch (token.type) {
+			case 'string':
+				return token.value;
+
+			case 'number':
+				return Number(token.value);
+
+			case 'regex': {
+				const end = token.value.lastIndexOf('/');
+				try {
+					return new RegExp(token.value.slice(1, end), token.value.slice(end + 1));
+				} catch (error) {
+					throw this.error((error as Error).message, token.position);
+				}
+			}
+
+			case 'identifier': {
+				switch (token.value) {
+					case 'z':
+						return new Namespace('z');
+					case 'true':
+						return true;
+					case 'false':
+						return false;
+					case 'null':
+						return null;
+					case 'undefined':
+						return undefined;
+					default:
+						throw this.error(`unknown identifier "${token.value}", only z is available`, token.position);
+				}
+			}
+		}
+
+		switch (token.value) {
+			case '-': {
+				const number = this.next();
+				if (number.type !== 'number') {
+					throw this.error('expected a number after "-"', number.position);
+				}
+				return -Number(number.value);
+			}
+
+			case '[':
+				return this.parseList(']', () => this.parseExpression());
+
+			case '{': {
+				const object: { [key: string]: Value } = {};
+				this.parseList('}', () => {
+					const key = this.next();
+					if (key.type === 'punctuation' || key.type === 'regex') {
+						throw this.error(`expected a property name but found "${key.value}"`, key.position);
+					}
+					this.expect(':');
+					// defineProperty keeps a "__proto__" key from replacing the prototype
+					Object.defineProperty(object, key.value, {
+						value: this.parseExpression(),
+						enumerable: true,
+						writable: true,
+						configurable: true,
+					});
+				});
+				return object;
+			}
+
+			case '(': {
+				const value = this.parseExpression();
+				this.expect(')');
+				return value;
+			}
+
+			default:
+				throw this.error(`unexpected "${token.value}"`, token.position);
+		}
+	}
+}
+
+/**
+ * Build the schema written as Manual Zod code, e.g. `z.object({ title: z.string() })`.
+ */
+export function manualZodToZodSchema(code: string): z.ZodObject<any> {
+	const schema = new ManualZodInterpreter(code.trim()).evaluate();
+	if (!(schema instanceof z.ZodObject)) {
+		throw new ApplicationError('Invalid Manual Zod schema: the schema must be a z.object()');
+	}
+
+	return schema;
+}
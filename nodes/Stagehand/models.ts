@@ -0,0 +1,273 @@
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { AVAILABLE_CUA_MODELS, type ModelConfiguration } from '@browserbasehq/stagehand';
+import { ApplicationError } from 'n8n-workflow';
+
+// Fields read from the LangChain chat models connected to the node. They differ per class.
+type ChatModelFields = {
+	lc_namespace: string[];
+	model?: unknown;
+	modelName?: unknown;
+	apiKey?: unknown;
+	temperature?: unknown;
+	baseUrl?: unknown;
+	headers?: unknown;
+	clientConfig?: {
+		apiKey?: unknown;
+		baseURL?: unknown;
+		organization?: unknown;
+		defaultHeaders?: unknown;
+	};
+	// Anthropic
+	anthropicApiKey?: unknown;
+	anthropicApiUrl?: unknown;
+	clientOptions?: { defaultHeaders?: unknown };
+	// Azure OpenAI
+	azureOpenAIApiKey?: unknown;
+	azureOpenAIApiInstanceName?: unknown;
+	azureOpenAIApiDeploymentName?: unknown;
+	azureOpenAIBasePath?: unknown;
+	azureOpenAIEndpoint?: unknown;
+	azureOpenAIApiVersion?: unknown;
+	openAIApiVersion?: unknown;
+	// Mistral
+	serverURL?: unknown;
+	endpoint?: unknown;
+	// Vertex AI
+	location?: unknown;
+	authOptions?: unknown;
+};
+
+export type ResolvedModel = {
+	provider: string;
+	modelName: string;
+	configuration: Exclude<ModelConfiguration, string>;
+};
+
+export type AgentMode = 'cua' | 'dom' | 'hybrid';
+
+type ModelSettings = Omit<ResolvedModel['configuration'], 'modelName'> & Record<string, unknown>;
+
+type ProviderResolver = {
+	// Provider prefix understood by Stagehand, as in "openai/gpt-4o"
+	provider: string;
+	displayName: string;
+	resolve: (model: ChatModelFields) => ModelSettings;
+};
+
+function asString(value: unknown): string | undefined {
+	return typeof value === 'string' && value.length > 0 ? value : undefined;
+}
+
+function asHeaders(value: unknown): Record<string, string> | undefined {
+	if (typeof value !== 'object' || value === null) {
+		return undefined;
+	}
+
+	const headers = Object.fromEntries(
+		Object.entries(value).filter((entry): entry is [string, string] => typeof entry[1] === 'string'),
+	);
+	return Object.keys(headers).length > 0 ? headers : undefined;
+}
+
+function withoutTrailingSlash(url: string | undefined): string | undefined {
+	return url?.replace(/\/+$/, '');
+}
+
+function openAiSettings(model: ChatModelFields): ModelSettings {
+	const baseURL = asString(model.clientConfig?.baseURL);
+	return {
+		// OpenAI-compatible local servers ignore the key, but the AI SDK refuses to start without one
+		apiKey: asString(model.apiKey) ?? asString(model.clientConfig?.apiKey) ?? (baseURL ? 'none' : undefined),
+		baseURL,
+		organization: asString(model.clientConfig?.organization),
+		headers: asHeaders(model.clientConfig?.defaultHeaders),
+	};
+}
+
+function apiKeySettings(model: ChatModelFields): ModelSettings {
+	return {
+		apiKey: asString(model.apiKey),
+		headers: asHeaders(model.headers),
+	};
+}
+
+// Keyed by the provider segment of the model's lc_namespace, e.g. ['langchain', 'chat_models', 'openai']
+const PROVIDER_RESOLVERS: Record<string, ProviderResolver> = {
+	openai: {
+		provider: 'openai',
+		displayName: 'OpenAI (and OpenAI-compatible APIs)',
+		resolve: openAiSettings,
+	},
+	azure_openai: {
+		provider: 'azure',
+		displayName: 'Azure OpenAI',
+		resolve: model => {
+			const endpoint = withoutTrailingSlash(
+				asString(model.azureOpenAIBasePath) ?? asString(model.azureOpenAIEndpoint),
+			);
+			return {
+				apiKey: asString(model.azureOpenAIApiKey) ?? asString(model.apiKey),
+				resourceName: asString(model.azureOpenAIApiInstanceName),
+				apiVersion: asString(model.azureOpenAIApiVersion) ?? asString(model.openAIApiVersion),
+				baseURL: endpoint && !endpoint.endsWith('/openai') ? `${endpoint}/openai` : endpoint,
+				headers: asHeaders(model.clientConfig?.defaultHeaders),
+			};
+		},
+	},
+	anthropic: {
+		provider: 'anthropic',
+		displayName: 'Anthropic',
+		resolve: model => {
+			const apiUrl = withoutTrailingSlash(asString(model.anthropicApiUrl));
+			return {
+				apiKey: asString(model.anthropicApiKey) ?? asString(model.apiKey),
+				// The AI SDK expects the versioned path LangChain adds itself
+				baseURL:
+					apiUrl && apiUrl !== 'https://api.anthropic.com'
+						? apiUrl.endsWith('/v1')
+							? apiUrl
+							: `${apiUrl}/v1`
+						: undefined,
+				headers: asHeaders(model.clientOptions?.defaultHeaders),
+			};
+		},
+	},
+	google_genai: {
+		provider: 'google',
+		displayName: 'Google Gemini',
+		resolve: model => ({
+			...apiKeySettings(model),
+			baseURL: asString(model.baseUrl),
+		}),
+	},
+	google_vertexai: {
+		provider: 'vertex',
+		displayName: 'Google Vertex AI',
+		resolve: model => ({
+			location: asString(model.location),
+			...(typeof model.authOptions === 'object' && model.authOptions !== null
+				? { googleAuthOptions: model.authOptions }
+				: {}),
+		}),
+	},
+	ollama: {
+		provider: 'ollama',
+		displayName: 'Ollama',
+		resolve: model => {
+			const baseUrl = withoutTrailingSlash(asString(model.baseUrl));
+			return {
+				// Ollama needs no key; its AI SDK provider talks to the /api routes
+				baseURL: baseUrl && !baseUrl.endsWith('/api') ? `${baseUrl}/api` : baseUrl,
+				headers: asHeaders(model.headers),
+			};
+		},
+	},
+	groq: {
+		provider: 'groq',
+		displayName: 'Groq',
+		resolve: apiKeySettings,
+	},
+	mistralai: {
+		provider: 'mistral',
+		displayName: 'Mistral',
+		resolve: model => ({
+			...apiKeySettings(model),
+			baseURL: asString(model.serverURL) ?? asString(model.endpoint),
+		}),
+	},
+	deepseek: {
+		provider: 'deepseek',
+		displayName: 'DeepSeek',
+		resolve: openAiSettings,
+	},
+	xai: {
+		provider: 'xai',
+		displayName: 'xAI Grok',
+		resolve: openAiSettings,
+	},
+	cerebras: {
+		provider: 'cerebras',
+		displayName: 'Cerebras',
+		resolve: apiKeySettings,
+	},
+	togetherai: {
+		provider: 'togetherai',
+		displayName: 'Together AI',
+		resolve: openAiSettings,
+	},
+	perplexity: {
+		provider: 'perplexity',
+		displayName: 'Perplexity',
+		resolve: apiKeySettings,
+	},
+};
+
+export const supportedProviders = Object.values(PROVIDER_RESOLVERS).map(({ displayName }) => displayName);
+
+/**
+ * Translate a connected LangChain chat model into Stagehand's model configuration,
+ * keeping its API key, base URL, headers and temperature.
+ */
+export function resolveModel(chatModel: BaseChatModel): ResolvedModel {
+	const model = chatModel as unknown as ChatModelFields;
+	const namespace = model.lc_namespace[2];
+	const resolver = PROVIDER_RESOLVERS[namespace];
+	if (!resolver) {
+		throw new ApplicationError(
+			`The connected chat model (${namespace ?? 'unknown'}) is not supported by Stagehand. Supported providers: ${supportedProviders.join(', ')}`,
+		);
+	}
+
+	const modelName =
+		namespace === 'azure_openai'
+			? asString(model.azureOpenAIApiDeploymentName) ?? asString(model.model)
+			: asString(model.model) ?? asString(model.modelName);
+	if (!modelName) {
+		throw new ApplicationError(`The connected ${resolver.displayName} chat model has no model name`);
+	}
+
+	// n8n's DeepSeek node is an OpenAI model pointed at the DeepSeek API
+	const provider =
+		resolver.provider === 'openai' && modelName.includes('deepseek') ? 'deepseek' : resolver.provider;
+
+	const settings: ModelSettings = {
+		...resolver.resolve(model),
+		...(typeof model.temperature === 'number' ? { temperature: model.temperature } : {}),
+	};
+	// Leave unset options out of the configuration
+	for (const key of Object.keys(settings)) {
+		if (settings[key] === undefined) {
+			delete settings[key];
+		}
+	}
+
+	return {
+		provider,
+		modelName,
+		configuration: {
+			...settings,
+			modelName: `${provider}/${modelName}`,
+		} as ResolvedModel['configuration'],
+	};
+}
+
+// Providers whose chat models read the screenshots hybrid agents click on
+const VISION_PROVIDERS = ['anthropic', 'azure', 'google', 'openai', 'vertex', 'xai'];
+
+/**
+ * Throw when the resolved model cannot drive an agent in the given mode. Computer Use
+ * needs one of the models Stagehand has a computer use client for, hybrid a model that
+ * reads screenshots.
+ */
+export function checkAgentModeSupport(model: ResolvedModel, mode: AgentMode): void {
+	if (mode === 'cua' && !(AVAILABLE_CUA_MODELS as readonly string[]).includes(model.configuration.modelName)) {
+		throw new ApplicationError(
+			`Computer Use mode does not support ${model.configuration.modelName}. Supported models: ${AVAILABLE_CUA_MODELS.join(', ')}`,
+		);
+	}
+	if (mode === 'hybrid' && !VISION_PROVIDERS.includes(model.provider)) {
+		throw new ApplicationError(
+			`Hybrid mode needs a model that reads screenshots, which ${model.configuration.modelName} does not provide. Use a model from ${VISION_PROVIDERS.join(', ')} or switch to DOM mode.`,
+		);
+	}
+}
@@ -0,0 +1,74 @@
+import type { Action } from '@browserbasehq/stagehand';
+import { ApplicationError } from 'n8n-workflow';
+import { toMatcher } from '../shared/patterns';
+
+export type ObservationSelection = {
+	selectBy: 'index' | 'filter';
+	index: number;
+	filter: string;
+	method: string;
+};
+
+function toAction(value: unknown, index: number): Action {
+	const candidate = value as Partial<Action> | null;
+	if (
+		typeof candidate !== 'object' ||
+		candidate === null ||
+		typeof candidate.selector !== 'string' ||
+		typeof candidate.description !== 'string'
+	) {
+		throw new ApplicationError(
+			`Observation ${index} is not an observe result: it needs a "selector" and a "description"`,
+		);
+	}
+	if (
+		candidate.arguments !== undefined &&
+		(!Array.isArray(candidate.arguments) || candidate.arguments.some(arg => typeof arg !== 'string'))
+	) {
+		throw new ApplicationError(`Observation ${index} has "arguments" that are not a list of strings`);
+	}
+
+	return {
+		selector: candidate.selector,
+		description: candidate.description,
+		...(candidate.method ? { method: candidate.method } : {}),
+		...(candidate.arguments ? { arguments: candidate.arguments } : {}),
+	};
+}
+
+/**
+ * Pick the observe result to act on from the observations passed in by a previous
+ * Observe operation, either a list of results or a single one.
+ */
+export function selectObservation(
+	observations: unknown,
+	selection: ObservationSelection,
+): { action: Action; index: number } {
+	const list = Array.isArray(observations) ? observations : [observations];
+	if (observations === undefined || observations === null || list.length === 0) {
+		throw new ApplicationError('No observations to act on');
+	}
+
+	if (selection.selectBy === 'index') {
+		const index = selection.index < 0 ? list.length + selection.index : selection.index;
+		if (index < 0 || index >= list.length) {
+			throw new ApplicationError(
+				`Observation index ${selection.index} is out of range, there are ${list.length} observations`,
+			);
+		}
+		return { action: toAction(list[index], index), index };
+	}
+
+	const matches = selection.filter ? toMatcher(selection.filter, 'observation filter') : () => true;
+	const actions = list.map(toAction);
+	const index = actions.findIndex(
+		action =>
+			matches(action.description) &&
+			(!selection.method || action.method?.toLowerCase() === selection.method.toLowerCase()),
+	);
+	if (index === -1) {
+		throw new ApplicationError(`None of the ${list.length} observations matches the filter`);
+	}
+
+	return { action: actions[index], index };
+}
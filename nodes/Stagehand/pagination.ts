@@ -0,0 +1,196 @@
+import type { Page } from '@browserbasehq/stagehand';
+import type { IDataObject, IExecuteFunctions } from 'n8n-workflow';
+import { z, type ZodTypeAny } from 'zod';
+
+export type Pagination = {
+	nextPageBy: 'instruction' | 'selector';
+	nextPage: string;
+	maxPages: number;
+	stopWhen: 'maxPages' | 'noNewItems' | 'selector';
+	stopSelector: string;
+	dedupeKey: string;
+};
+
+export type PaginationReport = {
+	pagesVisited: number;
+	stopReason: 'maxPages' | 'nextPageFailed' | 'noNewItems' | 'stopSelector';
+	itemsPerPage: number[];
+	duplicatesRemoved: number;
+	urls: string[];
+	nextPageError?: string;
+};
+
+/**
+ * Read the pagination settings of an item, or undefined when extract runs on one page.
+ */
+export function getPagination(this: IExecuteFunctions, itemIndex: number): Pagination | undefined {
+	if (!(this.getNodeParameter('paginate', itemIndex, false) as boolean)) {
+		return undefined;
+	}
+
+	return {
+		nextPageBy: this.getNodeParameter('nextPageBy', itemIndex, 'instruction') as Pagination['nextPageBy'],
+		nextPage: (this.getNodeParameter('nextPage', itemIndex, '') as string).trim(),
+		maxPages: this.getNodeParameter('maxPages', itemIndex, 5) as number,
+		stopWhen: this.getNodeParameter('stopWhen', itemIndex, 'noNewItems') as Pagination['stopWhen'],
+		stopSelector: (this.getNodeParameter('stopSelector', itemIndex, '') as string).trim(),
+		dedupeKey: (this.getNodeParameter('dedupeKey', itemIndex, '') as string).trim(),
+	};
+}
+
+// Wrappers that keep the shape of the schema they wrap
+function unwrap(schema: ZodTypeAny): ZodTypeAny {
+	if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+		return unwrap(schema.unwrap());
+	}
+	if (schema instanceof z.ZodDefault) {
+		return unwrap(schema.removeDefault());
+	}
+	if (schema instanceof z.ZodEffects) {
+		return unwrap(schema.innerType());
+	}
+	return schema;
+}
+
+/**
+ * Whether an extract schema has a list field the items of every page can be collected in.
+ */
+export function hasListField(schema: ZodTypeAny): boolean {
+	const object = unwrap(schema);
+	return (
+		object instanceof z.ZodObject &&
+		Object.values(object.shape as Record<string, ZodTypeAny>).some((field) => unwrap(field) instanceof z.ZodArray)
+	);
+}
+
+// Notes when the content of the document last changed. A new document has no watch.
+const WATCH_DOCUMENT = `(() => {
+	const watch = { changed: false, changedAt: 0 };
+	new MutationObserver(() => {
+		watch.changed = true;
+		watch.changedAt = Date.now();
+	}).observe(document.documentElement, { childList: true, subtree: true, characterData: true });
+	window.__n8nNextPageWatch = watch;
+})()`;
+
+const READ_WATCH = `(() => {
+	const watch = window.__n8nNextPageWatch;
+	return watch ? { changed: watch.changed, quietMs: Date.now() - watch.changedAt } : null;
+})()`;
+
+// How long the DOM and the network must be quiet for the next page to count as loaded
+const QUIET_MS = 500;
+
+// Requests pending longer than this, e.g. long polling, do not keep the network busy
+const STALLED_REQUEST_MS = 2000;
+
+/**
+ * Click the next page button and wait until the page changed, by a navigation or by
+ * script, and its DOM and network are quiet. Returns why it failed if the page did not
+ * change in time.
+ */
+export async function clickNextPage(page: Page, selector: string, timeoutMs = 10000): Promise<string | undefined> {
+	const session = page.getSessionForFrame(page.mainFrameId());
+	const requests = new Map<string, number>();
+	const onRequest = ({ requestId }: { requestId: string }) => requests.set(requestId, Date.now());
+	const onRequestDone = ({ requestId }: { requestId: string }) => requests.delete(requestId);
+	session.on('Network.requestWillBeSent', onRequest);
+	session.on('Network.loadingFinished', onRequestDone);
+	session.on('Network.loadingFailed', onRequestDone);
+
+	try {
+		await session.send('Network.enable').catch(() => {});
+		const urlBefore = page.url();
+		await page.evaluate(WATCH_DOCUMENT);
+		try {
+			await page.locator(selector).click();
+		} catch (error) {
+			return (error as Error).message;
+		}
+
+		let changed = false;
+		const deadline = Date.now() + timeoutMs;
+		while (Date.now() < deadline) {
+			await new Promise((resolve) => setTimeout(resolve, 100));
+			// Fails while a navigation replaces the document
+			const watch = await page
+				.evaluate<{ changed: boolean; quietMs: number } | null>(READ_WATCH)
+				.catch(() => undefined);
+			if (watch === undefined) {
+				continue;
+			}
+			changed ||= watch === null || watch.changed || page.url() !== urlBefore;
+			if (!changed) {
+				continue;
+			}
+
+			for (const [requestId, sentAt] of requests) {
+				if (Date.now() - sentAt > STALLED_REQUEST_MS) {
+					requests.delete(requestId);
+				}
+			}
+			const domQuiet = watch === null || watch.quietMs >= QUIET_MS;
+			if (domQuiet && requests.size === 0) {
+				if (watch === null) {
+					await page.waitForLoadState('domcontentloaded');
+				}
+				return undefined;
+			}
+		}
+
+		// A page that changed but never went quiet is extracted as it is
+		return changed ? undefined : `The page did not change after clicking ${selector}`;
+	} finally {
+		session.off('Network.requestWillBeSent', onRequest);
+		session.off('Network.loadingFinished', onRequestDone);
+		session.off('Network.loadingFailed', onRequestDone);
+	}
+}
+
+// Items without the key field are compared whole
+function toKey(item: unknown, dedupeKey: string): string {
+	if (dedupeKey && typeof item === 'object' && item !== null) {
+		const value = (item as IDataObject)[dedupeKey];
+		if (value !== undefined && value !== null) {
+			return `key:${typeof value === 'string' ? value.trim() : JSON.stringify(value)}`;
+		}
+	}
+	return `item:${JSON.stringify(item)}`;
+}
+
+/**
+ * Merge the result extracted from one page into the results of the previous pages. Array
+ * fields are concatenated without the items already in `seen`, other fields keep the
+ * value of the first page that had one.
+ */
+export function mergePageResult(
+	merged: IDataObject | undefined,
+	pageResult: IDataObject,
+	dedupeKey: string,
+	seen: Set<string>,
+): { merged: IDataObject; newItems: number; duplicates: number } {
+	const result: IDataObject = { ...merged };
+	let newItems = 0;
+	let duplicates = 0;
+
+	for (const [field, value] of Object.entries(pageResult)) {
+		if (Array.isArray(value)) {
+			const items = Array.isArray(result[field]) ? [...(result[field] as unknown[])] : [];
+			for (const item of value) {
+				const key = `${field}\u0000${toKey(item, dedupeKey)}`;
+				if (seen.has(key)) {
+					duplicates++;
+					continue;
+				}
+				seen.add(key);
+				items.push(item);
+				newItems++;
+			}
+			result[field] = items as IDataObject[];
+		} else if (result[field] === undefined || result[field] === null || result[field] === '') {
+			result[field] = value;
+		}
+	}
+
+	return { merged: result, newItems, duplicates };
+}
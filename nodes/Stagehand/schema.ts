@@ -0,0 +1,499 @@
+import { ApplicationError, type INodeProperties } from 'n8n-workflow';
+import { z, ZodTypeAny } from 'zod';
+
+export type Field = {
+	fieldName: string;
+	fieldType: string;
+	description?: string;
+	enumValues?: string;
+	itemType?: string;
+	nullable?: boolean;
+	optional: boolean;
+};
+
+/**
+ * Values of a Field List entry. Field names are paths: `address.city` nests a field in the
+ * `address` object and `products[].price` in the items of the `products` array.
+ */
+export const fieldListValues: INodeProperties[] = [
+	{
+		displayName: 'Name',
+		name: 'fieldName',
+		type: 'string',
+		default: '',
+		placeholder: 'e.g. products[].price',
+		description:
+			'Property name in the extracted object. Use dots for nested fields (address.city) and [] for arrays of objects (products[].price).',
+		required: true,
+	},
+	{
+		displayName: 'Type',
+		name: 'fieldType',
+		type: 'options',
+		options: [
+			{
+				name: 'Array',
+				value: 'array',
+			},
+			{
+				name: 'Boolean',
+				value: 'boolean',
+			},
+			{
+				name: 'Enum',
+				value: 'enum',
+			},
+			{
+				name: 'Number',
+				value: 'number',
+			},
+			{
+				name: 'Object',
+				value: 'object',
+			},
+			{
+				name: 'String',
+				value: 'string',
+			},
+		],
+		default: 'string',
+		required: true,
+	},
+	{
+		displayName: 'Item Type',
+		name: 'itemType',
+		type: 'options',
+		options: [
+			{
+				name: 'Any',
+				value: 'any',
+			},
+			{
+				name: 'Boolean',
+				value: 'boolean',
+			},
+			{
+				name: 'Number',
+				value: 'number',
+			},
+			{
+				name: 'Object',
+				value: 'object',
+				description: 'Define the item properties as fields named like "array[].property"',
+			},
+			{
+				name: 'String',
+				value: 'string',
+			},
+		],
+		default: 'any',
+		description: 'Type of the array items',
+		displayOptions: {
+			show: {
+				fieldType: ['array'],
+			},
+		},
+	},
+	{
+		displayName: 'Enum Values',
+		name: 'enumValues',
+		type: 'string',
+		default: '',
+		placeholder: 'e.g. in stock, out of stock',
+		description: 'Comma-separated list of allowed values',
+		displayOptions: {
+			show: {
+				fieldType: ['enum'],
+			},
+		},
+	},
+	{
+		displayName: 'Description',
+		name: 'description',
+		type: 'string',
+		default: '',
+		description: 'Explains to the model what to extract into this field',
+	},
+	{
+		displayName: 'Nullable',
+		name: 'nullable',
+		type: 'boolean',
+		default: false,
+		description: 'Whether the field can be null when the value is not on the page',
+	},
+	{
+		displayName: 'Optional',
+		name: 'optional',
+		type: 'boolean',
+		default: false,
+		description: 'Whether the field can be left out of the result',
+	},
+];
+
+type FieldNode = {
+	field?: Field;
+	// Declared through a `name[]` path segment
+	arrayOfObjects: boolean;
+	children: Map<string, FieldNode>;
+};
+
+function parseFieldTree(fields: Field[]): Map<string, FieldNode> {
+	const root = new Map<string, FieldNode>();
+
+	for (const field of fields) {
+		const segments = field.fieldName.split('.').map(segment => segment.trim());
+		if (segments.some(segment => segment === '' || segment === '[]')) {
+			throw new ApplicationError(`Invalid field name "${field.fieldName}"`);
+		}
+
+		let level = root;
+		segments.forEach((segment, index) => {
+			const isLast = index === segments.length - 1;
+			const arrayOfObjects = segment.endsWith('[]');
+			const name = arrayOfObjects ? segment.slice(0, -2) : segment;
+
+			let node = level.get(name);
+			if (!node) {
+				node = { arrayOfObjects: false, children: new Map() };
+				level.set(name, node);
+			}
+
+			if (isLast) {
+				if (node.field) {
+					throw new ApplicationError(`Field "${field.fieldName}" is defined more than once`);
+				}
+				node.field = field;
+			}
+			if (arrayOfObjects && !isLast) {
+				node.arrayOfObjects = true;
+			}
+			level = node.children;
+		});
+	}
+
+	return root;
+}
+
+function scalarToZod(type: string, path: string): ZodTypeAny {
+	switch (type) {
+		case 'string':
+			return z.string();
+		case 'number':
+			return z.number();
+		case 'boolean':
+			return z.boolean();
+		case 'any':
+			return z.any();
+		default:
+			throw new ApplicationError(`Unsupported type "${type}" for field "${path}"`);
+	}
+}
+
+function objectToZod(children: Map<string, FieldNode>, path: string): z.ZodObject<any> {
+	if (children.size === 0) {
+		return z.object({}).passthrough();
+	}
+
+	const shape: Record<string, ZodTypeAny> = {};
+	for (const [name, node] of children) {
+		shape[name] = nodeToZod(node, path ? `${path}.${name}` : name);
+	}
+
+	return z.object(shape);
+}
+
+function nodeToZod(node: FieldNode, path: string): ZodTypeAny {
+	const { field, children } = node;
+
+	// Only declared through the paths of nested fields
+	if (!field) {
+		const object = objectToZod(children, path);
+		return node.arrayOfObjects ? z.array(object) : object;
+	}
+
+	const type = field.fieldType;
+	const itemType = field.itemType || 'any';
+	const hasObjectItems = type === 'array' && itemType === 'object';
+	if (children.size > 0 && type !== 'object' && !hasObjectItems) {
+		throw new ApplicationError(
+			`Field "${path}" has nested fields, so its type must be Object or Array of Objects`,
+		);
+	}
+	if (node.arrayOfObjects && !hasObjectItems) {
+		throw new ApplicationError(`Field "${path}" is used as an array of objects but declared otherwise`);
+	}
+
+	let zType: ZodTypeAny;
+	switch (type) {
+		case 'object':
+			zType = objectToZod(children, path);
+			break;
+		case 'array':
+			zType = z.array(hasObjectItems ? objectToZod(children, path) : scalarToZod(itemType, path));
+			break;
+		case 'enum': {
+			const values = (field.enumValues ?? '')
+				.split(',')
+				.map(value => value.trim())
+				.filter(value => value.length > 0);
+			if (values.length === 0) {
+				throw new ApplicationError(`Enum field "${path}" needs at least one value`);
+			}
+			zType = z.enum(values as [string, ...string[]]);
+			break;
+		}
+		default:
+			zType = scalarToZod(type, path);
+	}
+
+	if (field.description) {
+		zType = zType.describe(field.description);
+	}
+	if (field.nullable) {
+		zType = zType.nullable();
+	}
+
+	return field.optional ? zType.optional() : zType;
+}
+
+/**
+ * Build the Zod schema described by a Field List.
+ */
+export function fieldsToZodSchema(fields: Field[]): z.ZodObject<any> {
+	return objectToZod(parseFieldTree(fields), '');
+}
+
+/**
+ * Thrown for schemas that cannot be converted, naming the offending location.
+ */
+export class SchemaError extends ApplicationError {
+	constructor(source: string, path: string, reason: string) {
+		super(`Invalid ${source} at ${path}: ${reason}`);
+	}
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * JSON parameters arrive as strings, or already parsed when set through an expression.
+ */
+export function parseJsonParameter(value: unknown, source: string): unknown {
+	if (typeof value !== 'string') {
+		return value;
+	}
+
+	try {
+		return JSON.parse(value);
+	} catch (error) {
+		throw new ApplicationError(`Invalid ${source}: ${(error as Error).message}`);
+	}
+}
+
+function exampleToZod(value: unknown, path: string): ZodTypeAny {
+	if (value === null) {
+		// A null example does not say anything about the type
+		return z.any();
+	}
+	if (Array.isArray(value)) {
+		return z.array(value.length > 0 ? exampleToZod(value[0], `${path}[0]`) : z.any());
+	}
+
+	switch (typeof value) {
+		case 'string':
+			return z.string();
+		case 'number':
+			return z.number();
+		case 'boolean':
+			return z.boolean();
+		case 'object': {
+			const shape: Record<string, ZodTypeAny> = {};
+			for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+				shape[key] = exampleToZod(child, `${path}.${key}`);
+			}
+			return z.object(shape);
+		}
+		default:
+			throw new SchemaError('example JSON', path, `unsupported value of type ${typeof value}`);
+	}
+}
+
+/**
+ * Build the Zod schema matching the shape of an example object.
+ */
+export function exampleToZodSchema(example: unknown): z.ZodObject<any> {
+	if (!isPlainObject(example)) {
+		throw new SchemaError('example JSON', '$', 'the example must be an object');
+	}
+
+	return exampleToZod(example, '$') as z.ZodObject<any>;
+}
+
+function jsonSchemaTypeToZod(
+	node: Record<string, unknown>,
+	type: unknown,
+	path: string,
+): ZodTypeAny {
+	const fail = (reason: string) => new SchemaError('JSON Schema', path, reason);
+
+	switch (type) {
+		case 'string': {
+			let zString = z.string();
+			if (typeof node.minLength === 'number') zString = zString.min(node.minLength);
+			if (typeof node.maxLength === 'number') zString = zString.max(node.maxLength);
+			if (typeof node.pattern === 'string') {
+				try {
+					zString = zString.regex(new RegExp(node.pattern));
+				} catch {
+					throw fail(`invalid pattern "${node.pattern}"`);
+				}
+			}
+			switch (node.format) {
+				case 'email':
+					return zString.email();
+				case 'uri':
+				case 'url':
+					return zString.url();
+				case 'uuid':
+					return zString.uuid();
+				case 'date-time':
+					return zString.datetime({ offset: true });
+				default:
+					return zString;
+			}
+		}
+
+		case 'number':
+		case 'integer': {
+			let zNumber = type === 'integer' ? z.number().int() : z.number();
+			if (typeof node.minimum === 'number') zNumber = zNumber.min(node.minimum);
+			if (typeof node.maximum === 'number') zNumber = zNumber.max(node.maximum);
+			return zNumber;
+		}
+
+		case 'boolean':
+			return z.boolean();
+
+		case 'null':
+			return z.null();
+
+		case 'array': {
+			if (Array.isArray(node.items)) {
+				throw fail('tuple "items" arrays are not supported');
+			}
+			let zArray = z.array(
+				node.items === undefined ? z.any() : jsonSchemaNodeToZod(node.items, `${path}/items`),
+			);
+			if (typeof node.minItems === 'number') zArray = zArray.min(node.minItems);
+			if (typeof node.maxItems === 'number') zArray = zArray.max(node.maxItems);
+			return zArray;
+		}
+
+		case 'object': {
+			const properties = node.properties ?? {};
+			if (!isPlainObject(properties)) {
+				throw fail('"properties" must be an object');
+			}
+			const required = node.required ?? [];
+			if (!Array.isArray(required) || required.some(name => typeof name !== 'string')) {
+				throw fail('"required" must be an array of property names');
+			}
+			for (const name of required as string[]) {
+				if (!(name in properties)) {
+					throw fail(`required property "${name}" is not defined in "properties"`);
+				}
+			}
+
+			const shape: Record<string, ZodTypeAny> = {};
+			for (const [name, property] of Object.entries(properties)) {
+				const zProperty = jsonSchemaNodeToZod(property, `${path}/properties/${name}`);
+				shape[name] = required.includes(name) ? zProperty : zProperty.optional();
+			}
+			const zObject = z.object(shape);
+			return node.additionalProperties === true || Object.keys(shape).length === 0
+				? zObject.passthrough()
+				: zObject;
+		}
+
+		case undefined:
+			return z.any();
+
+		default:
+			throw fail(`unsupported type ${JSON.stringify(type)}`);
+	}
+}
+
+function jsonSchemaNodeToZod(node: unknown, path: string): ZodTypeAny {
+	if (node === true) {
+		return z.any();
+	}
+	if (!isPlainObject(node)) {
+		throw new SchemaError('JSON Schema', path, 'expected a schema object');
+	}
+	if ('$ref' in node) {
+		throw new SchemaError('JSON Schema', path, '"$ref" is not supported, inline the referenced schema');
+	}
+
+	let zType: ZodTypeAny;
+	const variants = node.anyOf ?? node.oneOf;
+	if (node.const !== undefined) {
+		zType = z.literal(node.const as z.Primitive);
+	} else if (node.enum !== undefined) {
+		if (!Array.isArray(node.enum) || node.enum.length === 0) {
+			throw new SchemaError('JSON Schema', `${path}/enum`, 'expected a non-empty array');
+		}
+		zType = node.enum.every(value => typeof value === 'string')
+			? z.enum(node.enum as [string, ...string[]])
+			: unionOf(node.enum.map(value => z.literal(value as z.Primitive)));
+	} else if (variants !== undefined) {
+		const keyword = node.anyOf !== undefined ? 'anyOf' : 'oneOf';
+		if (!Array.isArray(variants) || variants.length === 0) {
+			throw new SchemaError('JSON Schema', `${path}/${keyword}`, 'expected a non-empty array');
+		}
+		zType = unionOf(variants.map((variant, index) => jsonSchemaNodeToZod(variant, `${path}/${keyword}/${index}`)));
+	} else if (node.allOf !== undefined) {
+		if (!Array.isArray(node.allOf) || node.allOf.length === 0) {
+			throw new SchemaError('JSON Schema', `${path}/allOf`, 'expected a non-empty array');
+		}
+		zType = node.allOf
+			.map((member, index) => jsonSchemaNodeToZod(member, `${path}/allOf/${index}`))
+			.reduce((left, right) => z.intersection(left, right));
+	} else if (Array.isArray(node.type)) {
+		const types = node.type.filter(type => type !== 'null');
+		zType = types.length === 0 ? z.null() : unionOf(types.map(type => jsonSchemaTypeToZod(node, type, path)));
+		if (types.length < node.type.length && types.length > 0) {
+			zType = zType.nullable();
+		}
+	} else {
+		const type = node.type ?? (node.properties !== undefined ? 'object' : undefined);
+		zType = jsonSchemaTypeToZod(node, type, path);
+	}
+
+	if (typeof node.description === 'string') {
+		zType = zType.describe(node.description);
+	}
+	// OpenAPI style nullable
+	if (node.nullable === true) {
+		zType = zType.nullable();
+	}
+
+	return zType;
+}
+
+function unionOf(types: ZodTypeAny[]): ZodTypeAny {
+	return types.length === 1 ? types[0] : z.union(types as [ZodTypeAny, ZodTypeAny, ...ZodTypeAny[]]);
+}
+
+/**
+ * Build the Zod schema described by a JSON Schema. Errors point at the offending
+ * location as a JSON pointer, e.g. `#/properties/price`.
+ */
+export function jsonSchemaToZodSchema(jsonSchema: unknown): z.ZodObject<any> {
+	const schema = jsonSchemaNodeToZod(jsonSchema, '#');
+	if (!(schema instanceof z.ZodObject)) {
+		throw new SchemaError('JSON Schema', '#', 'the root schema must be of type "object"');
+	}
+
+	return schema;
+}
@@ -0,0 +1,118 @@
+import type { LogLine, Page } from '@browserbasehq/stagehand';
+import type { IDataObject, IExecuteFunctions } from 'n8n-workflow';
+import { ApplicationError } from 'n8n-workflow';
+
+export type Scope = {
+	selector: string;
+	iframe: string;
+	// Selector handed to Stagehand, which enters iframes with ">>" hops
+	stagehandSelector: string;
+};
+
+export type ScopeEstimate = {
+	pageTreeTokens: number;
+	scopedTreeTokens: number;
+	estimatedTokensSaved: number;
+};
+
+type DomNode = {
+	backendNodeId: number;
+	children?: DomNode[];
+	contentDocument?: DomNode;
+	shadowRoots?: DomNode[];
+};
+
+function isXPath(selector: string): boolean {
+	return /^xpath=/i.test(selector) || selector.startsWith('/') || selector.startsWith('(');
+}
+
+// Accessibility trees average about four characters per token
+function toTokens(characters: number): number {
+	return Math.ceil(characters / 4);
+}
+
+/**
+ * Read the scope of an item, or undefined when the whole page is used.
+ */
+export function getScope(this: IExecuteFunctions, itemIndex: number): Scope | undefined {
+	const selector = (this.getNodeParameter('scopeSelector', itemIndex, '') as string).trim();
+	const iframe = (this.getNodeParameter('scopeIframe', itemIndex, '') as string).trim();
+	if (!selector && !iframe) {
+		return undefined;
+	}
+
+	if (iframe && isXPath(selector)) {
+		throw new ApplicationError(
+			'Inside an iframe the scope must be a CSS selector, or an XPath that includes the iframe without Scope Iframe',
+		);
+	}
+
+	return {
+		selector,
+		iframe,
+		stagehandSelector: iframe ? `${iframe} >> ${selector || 'html'}` : selector,
+	};
+}
+
+/**
+ * Estimate the tokens the scope saves, by comparing the page's accessibility tree with
+ * the part of it under the scoped element. Best-effort: undefined when the element
+ * cannot be resolved.
+ */
+export async function estimateScopeSavings(page: Page, scope: Scope): Promise<ScopeEstimate | undefined> {
+	try {
+		const { formattedTree } = await page.snapshot({ includeIframes: true });
+		const frame = scope.iframe ? await page.frameLocator(scope.iframe).resolveFrame() : page.mainFrame();
+		const backendNodeId = await frame.locator(scope.selector || 'html').backendNodeId();
+		const { node } = await frame.session.send<{ node: DomNode }>('DOM.describeNode', {
+			backendNodeId,
+			depth: -1,
+			pierce: true,
+		});
+
+		const inScope = new Set<number>();
+		const queue = [node];
+		while (queue.length > 0) {
+			const current = queue.shift()!;
+			inScope.add(current.backendNodeId);
+			queue.push(
+				...(current.children ?? []),
+				...(current.shadowRoots ?? []),
+				...(current.contentDocument ? [current.contentDocument] : []),
+			);
+		}
+
+		// Tree lines start with the node's "[frame-backendNodeId]"
+		let scopedCharacters = 0;
+		for (const line of formattedTree.split('\n')) {
+			const match = /^\s*\[\d+-(\d+)]/.exec(line);
+			if (match && inScope.has(Number(match[1]))) {
+				scopedCharacters += line.trim().length + 1;
+			}
+		}
+
+		const pageTreeTokens = toTokens(formattedTree.length);
+		const scopedTreeTokens = toTokens(scopedCharacters);
+		return {
+			pageTreeTokens,
+			scopedTreeTokens,
+			estimatedTokensSaved: Math.max(0, pageTreeTokens - scopedTreeTokens),
+		};
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Describe the scope for the output. Stagehand falls back to the whole page when the
+ * selector matches nothing, which it logs.
+ */
+export function getScopeReport(scope: Scope, estimate: ScopeEstimate | undefined, messages: LogLine[]): IDataObject {
+	const fellBack = messages.some((message) => message.message.startsWith('Unable to narrow scope with selector'));
+	return {
+		...(scope.selector ? { selector: scope.selector } : {}),
+		...(scope.iframe ? { iframe: scope.iframe } : {}),
+		applied: !fellBack,
+		...(estimate && !fellBack ? estimate : {}),
+	};
+}
@@ -0,0 +1,107 @@
+import type { Page } from '@browserbasehq/stagehand';
+import { promises as fs } from 'fs';
+import type { IBinaryKeyData, IDataObject, IExecuteFunctions } from 'n8n-workflow';
+import path from 'path';
+
+export type ScreenshotTiming = 'afterEach' | 'final' | 'onError';
+
+export type ScreenshotOptions = {
+	timing: ScreenshotTiming;
+	fullPage: boolean;
+	format: 'png' | 'jpeg';
+	quality: number;
+	saveToDisk: boolean;
+	basePath: string;
+	folder: string;
+};
+
+export type CapturedScreenshot = {
+	label: string;
+	data: Buffer;
+	path?: string;
+	// Why the image could not be written to disk, when saving it failed
+	saveError?: string;
+};
+
+/**
+ * Read the screenshot settings from the Advanced Options of an item.
+ */
+export function getScreenshotOptions(this: IExecuteFunctions, itemIndex: number): ScreenshotOptions {
+	return {
+		timing: this.getNodeParameter('options.screenshotTiming', itemIndex, 'final') as ScreenshotTiming,
+		fullPage: this.getNodeParameter('options.screenshotFullPage', itemIndex, false) as boolean,
+		format: this.getNodeParameter('options.screenshotFormat', itemIndex, 'png') as 'png' | 'jpeg',
+		quality: this.getNodeParameter('options.screenshotQuality', itemIndex, 80) as number,
+		saveToDisk: this.getNodeParameter('options.saveScreenshotsToDisk', itemIndex, false) as boolean,
+		basePath: this.getNodeParameter('options.screenshotsBasePath', itemIndex, '/home/node') as string,
+		folder: this.getNodeParameter('options.screenshotsFolder', itemIndex, 'screenshots') as string,
+	};
+}
+
+/**
+ * Capture the page, optionally writing the image to disk. Screenshots are best-effort:
+ * a failed capture (e.g. the page crashed) returns undefined and a failed write is
+ * reported in saveError, instead of failing the item.
+ */
+export async function captureScreenshot(
+	page: Page,
+	options: ScreenshotOptions,
+	label: string,
+): Promise<CapturedScreenshot | undefined> {
+	let data: Buffer;
+	try {
+		data = await page.screenshot({
+			type: options.format,
+			fullPage: options.fullPage,
+			...(options.format === 'jpeg' ? { quality: options.quality } : {}),
+		});
+	} catch {
+		return undefined;
+	}
+
+	if (!options.saveToDisk) {
+		return { label, data };
+	}
+
+	const folder = path.resolve(options.basePath, options.folder);
+	const filePath = path.join(folder, `${label}-${Date.now()}.${options.format === 'jpeg' ? 'jpg' : 'png'}`);
+	try {
+		await fs.mkdir(folder, { recursive: true });
+		await fs.writeFile(filePath, data);
+	} catch (error) {
+		return { label, data, saveError: (error as Error).message };
+	}
+
+	return { label, data, path: filePath };
+}
+
+/**
+ * Turn captured screenshots into binary properties named `screenshot_<label>`,
+ * plus a JSON summary pointing at them and at the files that could not be saved.
+ */
+export async function screenshotsToBinary(
+	this: IExecuteFunctions,
+	screenshots: CapturedScreenshot[],
+	format: 'png' | 'jpeg',
+): Promise<{ binary: IBinaryKeyData; summary: IDataObject[] }> {
+	const extension = format === 'jpeg' ? 'jpg' : 'png';
+	const binary: IBinaryKeyData = {};
+	const summary: IDataObject[] = [];
+
+	for (const { label, data, path: filePath, saveError } of screenshots) {
+		const binaryProperty = `screenshot_${label}`;
+		binary[binaryProperty] = await this.helpers.prepareBinaryData(
+			data,
+			`${label}.${extension}`,
+			`image/${format}`,
+		);
+		summary.push({
+			label,
+			binaryProperty,
+			...(filePath ? { path: filePath } : {}),
+			...(saveError ? { saveError } : {}),
+		});
+	}
+
+	return { binary, summary };
+}
@@ -0,0 +1,174 @@
+import type { Stagehand, StagehandMetrics } from '@browserbasehq/stagehand';
+import { ApplicationError } from 'n8n-workflow';
+
+export type LlmCall = {
+	function: string;
+	label?: string;
+	prompt_tokens: number;
+	completion_tokens: number;
+	reasoning_tokens: number;
+	cached_input_tokens: number;
+	inference_time_ms: number;
+};
+
+export type UsageSummary = {
+	prompt_tokens: number;
+	completion_tokens: number;
+	reasoning_tokens: number;
+	cached_input_tokens: number;
+	total_tokens: number;
+	inference_time_ms: number;
+	llm_calls: number;
+	estimated_cost?: number;
+};
+
+// Prices in USD per million tokens. Without a cached input price, cached tokens cost as much as others.
+export type ModelPrice = {
+	model: string;
+	inputPrice: number;
+	outputPrice: number;
+	cachedInputPrice?: number;
+};
+
+export type UsageLedger = {
+	calls: LlmCall[];
+	price?: ModelPrice;
+	maxTokens: number;
+	maxCost: number;
+	// Label given to the calls recorded from now on, e.g. the running instruction
+	label?: string;
+	// Agent steps are recorded as they finish, making Stagehand's aggregated agent metrics redundant
+	agentStepsRecorded: boolean;
+	// Stagehand's metrics when usage was last recorded
+	metrics?: StagehandMetrics;
+};
+
+export class BudgetExceededError extends ApplicationError {}
+
+/**
+ * Find the price of a model, listed either by model name or as `provider/model`.
+ */
+export function findModelPrice(
+	prices: ModelPrice[],
+	provider: string,
+	modelName: string,
+): ModelPrice | undefined {
+	const names = [modelName.toLowerCase(), `${provider}/${modelName}`.toLowerCase()];
+	return prices.find(price => names.includes(price.model.trim().toLowerCase()));
+}
+
+function estimateCost(calls: LlmCall[], price: ModelPrice): number {
+	let cost = 0;
+	for (const call of calls) {
+		// Cached tokens are part of the prompt tokens
+		const uncachedPrompt = call.prompt_tokens - call.cached_input_tokens;
+		cost +=
+			uncachedPrompt * price.inputPrice +
+			call.cached_input_tokens * (price.cachedInputPrice || price.inputPrice) +
+			call.completion_tokens * price.outputPrice;
+	}
+
+	// Rounded to a millionth of a dollar to keep float noise out of the output
+	return Math.round(cost) / 1_000_000;
+}
+
+/**
+ * Add up the token counts of LLM calls, with their estimated cost when the model has a price.
+ */
+export function summarizeUsage(calls: LlmCall[], price?: ModelPrice): UsageSummary {
+	const summary: UsageSummary = {
+		prompt_tokens: 0,
+		completion_tokens: 0,
+		reasoning_tokens: 0,
+		cached_input_tokens: 0,
+		total_tokens: 0,
+		inference_time_ms: 0,
+		llm_calls: calls.length,
+	};
+	for (const call of calls) {
+		summary.prompt_tokens += call.prompt_tokens;
+		summary.completion_tokens += call.completion_tokens;
+		summary.reasoning_tokens += call.reasoning_tokens;
+		summary.cached_input_tokens += call.cached_input_tokens;
+		summary.inference_time_ms += call.inference_time_ms;
+	}
+	summary.total_tokens = summary.prompt_tokens + summary.completion_tokens;
+
+	if (price) {
+		summary.estimated_cost = estimateCost(calls, price);
+	}
+
+	return summary;
+}
+
+/**
+ * Throw when the item has used more tokens or money than its budget allows.
+ */
+export function checkBudget(ledger: UsageLedger): void {
+	if (ledger.maxTokens <= 0 && ledger.maxCost <= 0) {
+		return;
+	}
+
+	const usage = summarizeUsage(ledger.calls, ledger.price);
+	if (ledger.maxTokens > 0 && usage.total_tokens > ledger.maxTokens) {
+		throw new BudgetExceededError(
+			`Token budget exceeded: ${usage.total_tokens} tokens used, the budget is ${ledger.maxTokens}`,
+		);
+	}
+	if (ledger.maxCost > 0 && (usage.estimated_cost ?? 0) > ledger.maxCost) {
+		throw new BudgetExceededError(
+			`Cost budget exceeded: an estimated $${usage.estimated_cost} spent, the budget is $${ledger.maxCost}`,
+		);
+	}
+}
+
+export function recordLlmCall(ledger: UsageLedger, call: Omit<LlmCall, 'label'>): void {
+	ledger.calls.push({ ...call, ...(ledger.label ? { label: ledger.label } : {}) });
+}
+
+// Prefixes of Stagehand's metrics, one per function that calls the LLM
+const METRIC_FUNCTIONS = ['act', 'extract', 'observe', 'agent'] as const;
+
+/**
+ * Start recording Stagehand's usage in the ledger from its current metrics, which a
+ * reused session has already added to.
+ */
+export async function startUsageLedger(stagehand: Stagehand, ledger: UsageLedger): Promise<void> {
+	ledger.metrics = { ...(await stagehand.metrics) };
+}
+
+/**
+ * Record the usage Stagehand added to its metrics since the last record, as one call per
+ * function, e.g. after an act() or extract() call.
+ */
+export async function recordUsage(stagehand: Stagehand, ledger: UsageLedger): Promise<void> {
+	const metrics = { ...(await stagehand.metrics) };
+	const previous = ledger.metrics ?? metrics;
+	ledger.metrics = metrics;
+
+	for (const name of METRIC_FUNCTIONS) {
+		const used = (metric: string) => {
+			const key = `${name}${metric}` as keyof StagehandMetrics;
+			return (metrics[key] ?? 0) - (previous[key] ?? 0);
+		};
+		const call = {
+			function: name,
+			prompt_tokens: used('PromptTokens'),
+			completion_tokens: used('CompletionTokens'),
+			reasoning_tokens: used('ReasoningTokens'),
+			cached_input_tokens: used('CachedInputTokens'),
+			inference_time_ms: used('InferenceTimeMs'),
+		};
+		const changed = call.prompt_tokens > 0 || call.completion_tokens > 0 || call.inference_time_ms > 0;
+		if (changed && !(name === 'agent' && ledger.agentStepsRecorded)) {
+			recordLlmCall(ledger, call);
+		}
+	}
+}
+
+/**
+ * Usage summary of the whole item with the breakdown per LLM call.
+ */
+export function getUsageReport(ledger: UsageLedger): UsageSummary & { calls: LlmCall[] } {
+	return { ...summarizeUsage(ledger.calls, ledger.price), calls: ledger.calls };
+}
@@ -0,0 +1,122 @@
+import type { AgentConfig, Stagehand } from '@browserbasehq/stagehand';
+import type { IExecuteFunctions } from 'n8n-workflow';
+import { ApplicationError } from 'n8n-workflow';
+// The entry point the AI SDK types agent tool schemas with
+import { z } from 'zod/v3';
+
+export type Variables = Record<string, string>;
+
+// A tool of the tool set agent() accepts
+type AgentTool = NonNullable<AgentConfig['tools']>[string];
+
+/**
+ * Collect the variables referenced as %name% in instructions, from the secrets
+ * credential first and then from the Variables parameter.
+ */
+export async function getVariables(this: IExecuteFunctions, itemIndex: number): Promise<Variables> {
+	const variables: Variables = {};
+
+	if (this.getNodeParameter('useSecretsCredential', itemIndex, false) as boolean) {
+		const credentials = await this.getCredentials('stagehandSecretsApi', itemIndex);
+		let secrets: unknown;
+		try {
+			secrets = JSON.parse((credentials.secrets as string) || '{}');
+		} catch {
+			throw new ApplicationError('The Stagehand Secrets credential must contain a valid JSON object');
+		}
+		if (!secrets || typeof secrets !== 'object' || Array.isArray(secrets)) {
+			throw new ApplicationError('The Stagehand Secrets credential must contain a JSON object');
+		}
+		for (const [name, value] of Object.entries(secrets)) {
+			variables[name] = String(value);
+		}
+	}
+
+	const entries = this.getNodeParameter('variables.variable', itemIndex, []) as Array<{
+		name: string;
+		value: string;
+	}>;
+	for (const { name, value } of entries) {
+		if (name) {
+			variables[name.trim()] = value;
+		}
+	}
+
+	return variables;
+}
+
+function redactValue(value: unknown, secrets: Array<[string, string]>): unknown {
+	if (typeof value === 'string') {
+		return secrets.reduce((text, [name, secret]) => text.split(secret).join(`%${name}%`), value);
+	}
+	if (Array.isArray(value)) {
+		return value.map((item) => redactValue(item, secrets));
+	}
+	if (typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype) {
+		return Object.fromEntries(
+			Object.entries(value).map(([key, item]) => [key, redactValue(item, secrets)]),
+		);
+	}
+	return value;
+}
+
+/**
+ * Replace every variable value found in the strings of a value with its %name% placeholder.
+ * Keys, numbers and booleans are left as they are.
+ */
+export function redactSecrets<T>(value: T, variables: Variables): T {
+	// Longest values first so a secret containing another one is fully redacted
+	const secrets = Object.entries(variables)
+		.filter(([, secret]) => secret.length > 0)
+		.sort(([, a], [, b]) => b.length - a.length);
+	if (secrets.length === 0) {
+		return value;
+	}
+
+	return redactValue(value, secrets) as T;
+}
+
+/**
+ * Agent act tool replacing Stagehand's built-in one, which does not forward variables
+ * and runs every action. The model only ever sees the %name% placeholders; values are
+ * filled in by act(). `refuse` gives the reason an action may not run, if there is one.
+ */
+export function createActTool(
+	stagehand: Stagehand,
+	variables: Variables,
+	refuse?: (action: string) => string | undefined,
+): AgentTool {
+	const names = Object.keys(variables)
+		.map((name) => `%${name}%`)
+		.join(', ');
+
+	return {
+		description:
+			'Perform an action on the page (click, type). Provide a short, specific phrase that mentions the element type.' +
+			(names ? ` To type a secret value, write its variable name instead of the value. Available variables: ${names}` : ''),
+		inputSchema: z.object({
+			action: z
+				.string()
+				.describe(
+					'Describe what to click or type, e.g. "click the Login button" or "type %password% into the password input"',
+				),
+		}),
+		execute: async ({ action }: { action: string }) => {
+			const refusal = refuse?.(action);
+			if (refusal) {
+				return { success: false, error: refusal };
+			}
+			try {
+				const result = await stagehand.act(action, { variables });
+				const actions = result.actions ?? [];
+				return {
+					success: result.success ?? true,
+					action: result.actionDescription ?? action,
+					playwrightArguments: actions.length > 0 ? actions[0] : undefined,
+				};
+			} catch (error) {
+				return { success: false, error: (error as Error).message };
+			}
+		},
+	};
+}
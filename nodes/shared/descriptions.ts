@@ -0,0 +1,96 @@
+import type {
+	ExpressionString,
+	IDisplayOptions,
+	INodeProperties,
+	INodePropertyOptions,
+} from 'n8n-workflow';
+
+export const existingSessionOption: INodePropertyOptions = {
+	name: 'Existing Session',
+	value: 'session',
+	description: 'Reuse a browser session kept open by a previous node',
+};
+
+export const errorOutputProperty: INodeProperties = {
+	displayName: 'Error Output',
+	name: 'errorOutput',
+	type: 'boolean',
+	default: false,
+	description:
+		'Whether to send failed items, with their error code, to a separate Error output instead of stopping the workflow',
+};
+
+// Outputs of nodes with `errorOutputProperty`, which adds an output for failed items
+export const errorOutputs: ExpressionString =
+	'={{ $parameter.errorOutput ? [{ "type": "main", "displayName": "Success" }, { "type": "main", "displayName": "Error", "category": "error" }] : ["main"] }}';
+
+/**
+ * Parameters to join, keep open and close browser sessions. They depend on a
+ * `browserSource` parameter offering `existingSessionOption`.
+ */
+export function getSessionProperties(hide: IDisplayOptions['hide'] = {}): INodeProperties[] {
+	return [
+		{
+			displayName: 'Session ID',
+			name: 'sessionId',
+			type: 'string',
+			default: '',
+			placeholder: 'e.g. {{ $json.sessionId }}',
+			description: 'ID of the session to reuse, as output by the node that kept it open',
+			required: true,
+			displayOptions: {
+				show: {
+					browserSource: ['session'],
+				},
+				hide,
+			},
+		},
+		{
+			displayName: 'Close Session',
+			name: 'closeSession',
+			type: 'boolean',
+			default: false,
+			description: 'Whether to close the session once all items have been processed',
+			displayOptions: {
+				show: {
+					browserSource: ['session'],
+				},
+				hide,
+			},
+		},
+		{
+			displayName: 'Keep Session Open',
+			name: 'keepSessionOpen',
+			type: 'boolean',
+			default: false,
+			description:
+				'Whether to keep the browser connected after the node finishes and output a session ID that later nodes can reuse',
+			displayOptions: {
+				hide: {
+					...hide,
+					browserSource: ['session'],
+				},
+			},
+		},
+		{
+			displayName: 'Idle Timeout (Minutes)',
+			name: 'idleTimeout',
+			type: 'number',
+			default: 10,
+			typeOptions: {
+				minValue: 0,
+			},
+			description:
+				'Close the session automatically after it has been unused for this long. Set to 0 to keep it until it is closed explicitly.',
+			displayOptions: {
+				show: {
+					keepSessionOpen: [true],
+				},
+				hide: {
+					...hide,
+					browserSource: ['session'],
+				},
+			},
+		},
+	];
+}
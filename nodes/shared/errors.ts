@@ -0,0 +1,150 @@
+import type { IDataObject } from 'n8n-workflow';
+import { redactUrls } from './logging';
+import { SessionNotFoundError } from './sessions';
+
+export type ErrorCode =
+	| 'ACTION_FAILED'
+	| 'BROWSER_CLOSED'
+	| 'BROWSER_CONNECTION_FAILED'
+	| 'BUDGET_EXCEEDED'
+	| 'ELEMENT_NOT_FOUND'
+	| 'GUARDRAIL_VIOLATION'
+	| 'INVALID_PARAMETER'
+	| 'LLM_AUTH_FAILED'
+	| 'LLM_ERROR'
+	| 'LLM_RATE_LIMITED'
+	| 'NAVIGATION_FAILED'
+	| 'SCHEMA_VALIDATION_FAILED'
+	| 'SCRIPT_ERROR'
+	| 'SESSION_NOT_FOUND'
+	| 'TIMEOUT'
+	| 'UNKNOWN';
+
+// Whether running the item again, unchanged, may succeed
+const RETRYABLE: Record<ErrorCode, boolean> = {
+	ACTION_FAILED: true,
+	BROWSER_CLOSED: true,
+	BROWSER_CONNECTION_FAILED: true,
+	BUDGET_EXCEEDED: false,
+	ELEMENT_NOT_FOUND: false,
+	GUARDRAIL_VIOLATION: false,
+	INVALID_PARAMETER: false,
+	LLM_AUTH_FAILED: false,
+	LLM_ERROR: true,
+	LLM_RATE_LIMITED: true,
+	NAVIGATION_FAILED: true,
+	SCHEMA_VALIDATION_FAILED: false,
+	SCRIPT_ERROR: false,
+	SESSION_NOT_FOUND: false,
+	TIMEOUT: true,
+	UNKNOWN: false,
+};
+
+export type ErrorDetails = {
+	code: ErrorCode;
+	retryable: boolean;
+	message: string;
+	// Page the browser was on when the item failed
+	url?: string;
+	// Last step of the item that succeeded, e.g. an instruction or an agent step
+	lastSuccessfulStep?: string;
+};
+
+type ErrorFields = {
+	name?: unknown;
+	message?: unknown;
+	statusCode?: unknown;
+	cause?: unknown;
+	// AI SDK retry errors keep the error of the last attempt
+	lastError?: unknown;
+};
+
+// The error and the errors it wraps, outermost first
+function unwrap(error: unknown): ErrorFields[] {
+	const chain: ErrorFields[] = [];
+	let current = error;
+	while (typeof current === 'object' && current !== null && chain.length < 10) {
+		const fields = current as ErrorFields;
+		chain.push(fields);
+		current = fields.lastError ?? fields.cause;
+	}
+	return chain;
+}
+
+/**
+ * Classify a browser or LLM error by its type, HTTP status and message. `known` maps error
+ * classes of the calling node to their code, ahead of the generic rules.
+ */
+export function classifyError(
+	error: unknown,
+	known: Array<[abstract new (...args: never[]) => Error, ErrorCode]> = [],
+): ErrorCode {
+	const chain = unwrap(error);
+	for (const fields of chain) {
+		const match = known.find(([errorClass]) => fields instanceof errorClass);
+		if (match) {
+			return match[1];
+		}
+		if (fields instanceof SessionNotFoundError) {
+			return 'SESSION_NOT_FOUND';
+		}
+	}
+
+	for (const fields of chain) {
+		const name = typeof fields.name === 'string' ? fields.name : '';
+		const message = typeof fields.message === 'string' ? fields.message : '';
+		const status = typeof fields.statusCode === 'number' ? fields.statusCode : undefined;
+
+		if (status === 429 || /rate.?limit|too many requests|quota/i.test(message)) {
+			return 'LLM_RATE_LIMITED';
+		}
+		if (status === 401 || status === 403 || name === 'LoadAPIKeyError' || /invalid.*api.?key|incorrect api key/i.test(message)) {
+			return 'LLM_AUTH_FAILED';
+		}
+		if (status !== undefined) {
+			return status >= 500 || status === 408 ? 'LLM_ERROR' : 'INVALID_PARAMETER';
+		}
+		if (name === 'ZodError' || name === 'TypeValidationError' || /schema validation failed/i.test(message)) {
+			return 'SCHEMA_VALIDATION_FAILED';
+		}
+		// Playwright times out waiting for elements that never show up
+		if (/waiting for (locator|selector)|resolved to 0 elements|no (element|node) (found|matching)/i.test(message)) {
+			return 'ELEMENT_NOT_FOUND';
+		}
+		if (name === 'TimeoutError' || /timeout .*exceeded|timed out/i.test(message)) {
+			return 'TIMEOUT';
+		}
+		if (/net::ERR_|NS_ERROR_/.test(message)) {
+			return 'NAVIGATION_FAILED';
+		}
+		if (/ECONNREFUSED|ECONNRESET|ENOTFOUND|EHOSTUNREACH|connectOverCDP|WebSocket error|socket hang up/i.test(message)) {
+			return 'BROWSER_CONNECTION_FAILED';
+		}
+		if (/(target|page|context|browser) (page, context or browser )?has been closed|browser has disconnected/i.test(message)) {
+			return 'BROWSER_CLOSED';
+		}
+		if (/\bevaluate: |is not defined|is not a function|Unexpected token/.test(message)) {
+			return 'SCRIPT_ERROR';
+		}
+	}
+
+	return 'UNKNOWN';
+}
+
+/**
+ * Describe an error for the item JSON of failed items.
+ */
+export function getErrorDetails(
+	error: unknown,
+	code: ErrorCode,
+	context: Pick<ErrorDetails, 'url' | 'lastSuccessfulStep'> = {},
+): ErrorDetails & IDataObject {
+	return {
+		code,
+		retryable: RETRYABLE[code],
+		// Connection errors repeat the CDP URL, which may hold an API key
+		message: redactUrls(error instanceof Error ? error.message : String(error)),
+		...(context.url ? { url: context.url } : {}),
+		...(context.lastSuccessfulStep ? { lastSuccessfulStep: context.lastSuccessfulStep } : {}),
+	};
+}
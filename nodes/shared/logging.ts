@@ -0,0 +1,137 @@
+import type { IDataObject, IExecuteFunctions, INodeProperties } from 'n8n-workflow';
+
+// Stagehand's log levels: errors and warnings are 0, information 1 and debug details 2
+export type VerboseLevel = 0 | 1 | 2;
+
+type LogLevel = 'error' | 'warn' | 'info' | 'debug';
+
+const LEVELS: Record<LogLevel, VerboseLevel> = {
+	error: 0,
+	warn: 0,
+	info: 1,
+	debug: 2,
+};
+
+export type TraceEntry = {
+	// Time since the item started
+	elapsedMs: number;
+	level: LogLevel;
+	message: string;
+	details?: IDataObject;
+};
+
+export type NodeLogger = Record<LogLevel, (message: string, details?: IDataObject) => void> & {
+	// Everything logged for the item, whatever the verbose level, when the trace is on
+	trace?: TraceEntry[];
+};
+
+export type NodeLoggerOptions = {
+	verbose: VerboseLevel;
+	trace: boolean;
+	// Additional redaction, e.g. of secret variable values
+	redact?: <T>(value: T) => T;
+};
+
+export const executionTraceOption: INodeProperties = {
+	displayName: 'Execution Trace',
+	name: 'executionTrace',
+	type: 'boolean',
+	default: false,
+	description:
+		'Whether to add a trace of every step of the item, with timings, to the output. URLs and secrets are redacted.',
+};
+
+// For nodes without a verbose level of their own, like Stagehand's
+export const verboseOption: INodeProperties = {
+	displayName: 'Verbose Level',
+	name: 'verbose',
+	type: 'options',
+	options: [
+		{
+			name: 'Errors and Warnings',
+			value: 0,
+		},
+		{
+			name: 'Info',
+			value: 1,
+		},
+		{
+			name: 'Debug',
+			value: 2,
+		},
+	],
+	default: 0,
+	description: 'Level of detail of what the node writes to the n8n log',
+};
+
+/**
+ * Replace the credentials, query parameter values and fragment of a URL, which often
+ * hold tokens, e.g. the API key of a CDP URL.
+ */
+export function redactUrl(raw: string): string {
+	let url: URL;
+	try {
+		url = new URL(raw);
+	} catch {
+		return raw;
+	}
+	if (!url.username && !url.password && !url.search && !url.hash) {
+		return raw;
+	}
+
+	if (url.username) {
+		url.username = 'REDACTED';
+	}
+	if (url.password) {
+		url.password = 'REDACTED';
+	}
+	for (const key of new Set(url.searchParams.keys())) {
+		url.searchParams.set(key, 'REDACTED');
+	}
+	if (url.hash) {
+		url.hash = 'REDACTED';
+	}
+	return url.toString();
+}
+
+/**
+ * Redact every URL in a text, including URLs inside serialized JSON.
+ */
+export function redactUrls(text: string): string {
+	return text.replace(/\b[a-z][a-z0-9+.-]*:\/\/[^\s"'<>\\]+/gi, redactUrl);
+}
+
+/**
+ * Create the logger of an item: entries go to the n8n log when the verbose level allows,
+ * and to the item's trace when it is on. URLs are always redacted.
+ */
+export function createNodeLogger(
+	this: IExecuteFunctions,
+	itemIndex: number,
+	options: NodeLoggerOptions,
+): NodeLogger {
+	const startedAt = Date.now();
+	const trace: TraceEntry[] | undefined = options.trace ? [] : undefined;
+	const node = this.getNode().name;
+
+	const clean = <T>(value: T): T => {
+		const redacted = JSON.parse(redactUrls(JSON.stringify(value))) as T;
+		return options.redact ? options.redact(redacted) : redacted;
+	};
+
+	const log = (level: LogLevel) => (message: string, details?: IDataObject) => {
+		const entry = clean({ message, ...(details ? { details } : {}) });
+		if (LEVELS[level] <= options.verbose) {
+			this.logger[level](entry.message, { node, itemIndex, ...entry.details });
+		}
+		trace?.push({ elapsedMs: Date.now() - startedAt, level, ...entry });
+	};
+
+	return {
+		error: log('error'),
+		warn: log('warn'),
+		info: log('info'),
+		debug: log('debug'),
+		trace,
+	};
+}
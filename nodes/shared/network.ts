@@ -0,0 +1,407 @@
+import type { IDataObject, IExecuteFunctions, INodeProperties } from 'n8n-workflow';
+import { ApplicationError } from 'n8n-workflow';
+import type { NodeLogger } from './logging';
+import { toMatcher } from './patterns';
+
+export type ResponseMock = {
+	// Text the URL contains, or a regular expression between slashes
+	url: string;
+	method?: string;
+	status?: number;
+	headers?: Record<string, string>;
+	// Objects and arrays are sent as JSON
+	body?: unknown;
+};
+
+export type NetworkOptions = {
+	blockResourceTypes: string[];
+	blockUrls: string[];
+	headers: Record<string, string>;
+	mocks: ResponseMock[];
+	// URL pattern of the responses to capture, empty for none
+	capture: string;
+};
+
+export type CapturedResponse = {
+	url: string;
+	method: string;
+	status: number;
+	mimeType: string;
+	requestBody?: unknown;
+	body?: unknown;
+	// Set for binary bodies, e.g. images
+	bodyEncoding?: 'base64';
+	// Why the body is missing, e.g. for redirects or bodies over the size limit
+	bodyError?: string;
+};
+
+export type NetworkReport = {
+	blocked: number;
+	mocked: number;
+	captured: CapturedResponse[];
+};
+
+// CDP session of the page, as Playwright and Stagehand provide it
+export type NetworkSession = {
+	send<R>(method: string, params?: object): Promise<R>;
+	on(event: string, handler: (params: never) => void): void;
+	off(event: string, handler: (params: never) => void): void;
+};
+
+type RequestPaused = {
+	requestId: string;
+	resourceType: string;
+	request: { url: string; method: string };
+};
+
+type RequestWillBeSent = {
+	requestId: string;
+	request: { url: string; method: string; postData?: string };
+};
+
+type ResponseReceived = {
+	requestId: string;
+	response: { url: string; status: number; mimeType: string };
+};
+
+type LoadingEnded = {
+	requestId: string;
+};
+
+// Captured bodies are kept in the item JSON, larger ones are left out
+const MAX_BODY_LENGTH = 1024 * 1024;
+const MAX_CAPTURED_RESPONSES = 100;
+
+export const networkProperty: INodeProperties = {
+	displayName: 'Network',
+	name: 'network',
+	type: 'collection',
+	placeholder: 'Add Option',
+	default: {},
+	description: 'Block, mock and capture the requests of the tab the node works on',
+	options: [
+		{
+			displayName: 'Block Resource Types',
+			name: 'blockResourceTypes',
+			type: 'multiOptions',
+			options: [
+				{
+					name: 'Font',
+					value: 'Font',
+				},
+				{
+					name: 'Image',
+					value: 'Image',
+				},
+				{
+					name: 'Media',
+					value: 'Media',
+				},
+				{
+					name: 'Ping',
+					value: 'Ping',
+					description: 'Beacons, mostly of analytics',
+				},
+				{
+					name: 'Script',
+					value: 'Script',
+				},
+				{
+					name: 'Stylesheet',
+					value: 'Stylesheet',
+				},
+			],
+			default: [],
+			description: 'Kinds of resources the page loads without, e.g. images to load pages faster',
+		},
+		{
+			displayName: 'Block URLs',
+			name: 'blockUrls',
+			type: 'string',
+			typeOptions: {
+				rows: 3,
+			},
+			default: '',
+			placeholder: 'e.g. googletagmanager.com\n/\\.(png|jpe?g)$/',
+			description:
+				'Requests to block, one pattern per line: text the URL contains (case-insensitive), or a regular expression between slashes',
+		},
+		{
+			displayName: 'Capture Responses',
+			name: 'capture',
+			type: 'string',
+			default: '',
+			placeholder: 'e.g. /api/ or /\\/graphql$/',
+			description: `Pattern of the URLs of responses to add to the output, with their request and response bodies. JSON bodies are parsed, bodies over ${MAX_BODY_LENGTH / 1024 / 1024} MB are left out.`,
+		},
+		{
+			displayName: 'Extra Headers',
+			name: 'headers',
+			type: 'fixedCollection',
+			typeOptions: {
+				multipleValues: true,
+			},
+			placeholder: 'Add Header',
+			default: {},
+			description: 'Headers to add to every request of the page',
+			options: [
+				{
+					displayName: 'Header',
+					name: 'header',
+					values: [
+						{
+							displayName: 'Name',
+							name: 'name',
+							type: 'string',
+							default: '',
+						},
+						{
+							displayName: 'Value',
+							name: 'value',
+							type: 'string',
+							default: '',
+						},
+					],
+				},
+			],
+		},
+		{
+			displayName: 'Mock Responses',
+			name: 'mocks',
+			type: 'json',
+			default: '[]',
+			placeholder: '[{ "url": "/api/user", "method": "GET", "status": 200, "body": { "name": "Ada" } }]',
+			description:
+				'JSON array of responses given instead of the real ones, or an expression giving one. Each mock has a URL pattern and optionally a method, status, headers and body.',
+		},
+	],
+};
+
+function parseMocks(value: unknown): ResponseMock[] {
+	let mocks = value;
+	if (typeof mocks === 'string') {
+		if (!mocks.trim()) {
+			return [];
+		}
+		try {
+			mocks = JSON.parse(mocks);
+		} catch (error) {
+			throw new ApplicationError(`Invalid mock responses: ${(error as Error).message}`);
+		}
+	}
+	if (!Array.isArray(mocks)) {
+		throw new ApplicationError('Invalid mock responses: they must be an array');
+	}
+	mocks.forEach((mock: Partial<ResponseMock>, index) => {
+		if (typeof mock?.url !== 'string' || !mock.url) {
+			throw new ApplicationError(`Invalid mock response ${index + 1}: it needs a URL pattern`);
+		}
+	});
+	return mocks as ResponseMock[];
+}
+
+/**
+ * Read the network options of an item.
+ */
+export function getNetworkOptions(this: IExecuteFunctions, itemIndex: number): NetworkOptions {
+	const headers = this.getNodeParameter('network.headers.header', itemIndex, []) as Array<{
+		name: string;
+		value: string;
+	}>;
+
+	const options: NetworkOptions = {
+		blockResourceTypes: this.getNodeParameter('network.blockResourceTypes', itemIndex, []) as string[],
+		blockUrls: (this.getNodeParameter('network.blockUrls', itemIndex, '') as string)
+			.split('\n')
+			.map((pattern) => pattern.trim())
+			.filter(Boolean),
+		headers: Object.fromEntries(headers.filter(({ name }) => name.trim()).map(({ name, value }) => [name.trim(), value])),
+		mocks: parseMocks(this.getNodeParameter('network.mocks', itemIndex, '[]')),
+		capture: (this.getNodeParameter('network.capture', itemIndex, '') as string).trim(),
+	};
+	// Invalid patterns fail the item before the browser is up
+	toMatchers(options);
+	return options;
+}
+
+// The URL patterns of the options, compiled
+function toMatchers(options: NetworkOptions) {
+	return {
+		blockedUrls: options.blockUrls.map((pattern) => toMatcher(pattern, 'blocked URL pattern')),
+		mocks: options.mocks.map((mock) => ({
+			mock,
+			matches: toMatcher(mock.url, 'mock URL pattern'),
+		})),
+		captures: options.capture ? toMatcher(options.capture, 'capture pattern') : undefined,
+	};
+}
+
+/**
+ * Whether the options pause requests, which a page can only have one handler for.
+ */
+export function interceptsRequests(options: NetworkOptions): boolean {
+	return options.blockResourceTypes.length > 0 || options.blockUrls.length > 0 || options.mocks.length > 0;
+}
+
+/**
+ * Whether any network option is set, so the page needs a session to apply them.
+ */
+export function hasNetworkOptions(options: NetworkOptions): boolean {
+	return interceptsRequests(options) || Object.keys(options.headers).length > 0 || options.capture !== '';
+}
+
+function toFulfillment(requestId: string, mock: ResponseMock) {
+	const isJson = typeof mock.body === 'object' && mock.body !== null;
+	const body = mock.body === undefined ? '' : isJson ? JSON.stringify(mock.body) : String(mock.body);
+	const headers = {
+		...(isJson ? { 'Content-Type': 'application/json' } : {}),
+		...mock.headers,
+	};
+	return {
+		requestId,
+		responseCode: mock.status ?? 200,
+		responseHeaders: Object.entries(headers).map(([name, value]) => ({ name, value: String(value) })),
+		body: Buffer.from(body).toString('base64'),
+	};
+}
+
+function parseBody(text: string, mimeType: string): unknown {
+	if (/json/i.test(mimeType)) {
+		try {
+			return JSON.parse(text) as IDataObject;
+		} catch {
+			// Sent as JSON but not JSON after all
+		}
+	}
+	return text;
+}
+
+/**
+ * Apply the network options to a page until the returned function is called, which
+ * reports what was blocked, mocked and captured.
+ */
+export async function attachNetwork(
+	session: NetworkSession,
+	options: NetworkOptions,
+	log: NodeLogger,
+): Promise<() => Promise<NetworkReport>> {
+	const report: NetworkReport = { blocked: 0, mocked: 0, captured: [] };
+	const { blockedUrls, mocks, captures } = toMatchers(options);
+
+	const onRequestPaused = (event: RequestPaused) => {
+		const { url, method } = event.request;
+		let command: Promise<unknown>;
+		const mock = mocks.find(
+			(candidate) =>
+				candidate.matches(url) && (!candidate.mock.method || candidate.mock.method.toUpperCase() === method),
+		);
+		if (options.blockResourceTypes.includes(event.resourceType) || blockedUrls.some((matches) => matches(url))) {
+			report.blocked++;
+			command = session.send('Fetch.failRequest', { requestId: event.requestId, errorReason: 'BlockedByClient' });
+		} else if (mock) {
+			report.mocked++;
+			log.debug('Mocked a response', { url, method });
+			command = session.send('Fetch.fulfillRequest', toFulfillment(event.requestId, mock.mock));
+		} else {
+			command = session.send('Fetch.continueRequest', { requestId: event.requestId });
+		}
+		// The page may have closed in the meantime
+		command.catch(() => {});
+	};
+
+	// Requests and responses of captured URLs, by request ID, until their body has loaded
+	const requests = new Map<string, RequestWillBeSent['request']>();
+	const responses = new Map<string, CapturedResponse>();
+	const bodies: Array<Promise<void>> = [];
+	const onRequestWillBeSent = (event: RequestWillBeSent) => {
+		if (captures?.(event.request.url)) {
+			requests.set(event.requestId, event.request);
+		}
+	};
+	const onResponseReceived = (event: ResponseReceived) => {
+		const request = requests.get(event.requestId);
+		if (!request || report.captured.length + responses.size >= MAX_CAPTURED_RESPONSES) {
+			return;
+		}
+		const { url, status, mimeType } = event.response;
+		responses.set(event.requestId, {
+			url,
+			method: request.method,
+			status,
+			mimeType,
+			...(request.postData !== undefined ? { requestBody: parseBody(request.postData, 'json') } : {}),
+		});
+	};
+	const onLoadingFinished = (event: LoadingEnded) => {
+		const response = responses.get(event.requestId);
+		if (!response) {
+			return;
+		}
+		responses.delete(event.requestId);
+		report.captured.push(response);
+		bodies.push(
+			session
+				.send<{ body: string; base64Encoded: boolean }>('Network.getResponseBody', { requestId: event.requestId })
+				.then(({ body, base64Encoded }) => {
+					const text = base64Encoded ? Buffer.from(body, 'base64').toString('utf8') : body;
+					if (text.length > MAX_BODY_LENGTH) {
+						response.bodyError = `The body is over ${MAX_BODY_LENGTH / 1024 / 1024} MB`;
+					} else if (base64Encoded && !/json|text|xml|javascript/i.test(response.mimeType)) {
+						response.body = body;
+						response.bodyEncoding = 'base64';
+					} else {
+						response.body = parseBody(text, response.mimeType);
+					}
+				})
+				.catch((error) => {
+					response.bodyError = (error as Error).message;
+				}),
+		);
+	};
+	const onLoadingFailed = (event: LoadingEnded) => {
+		responses.delete(event.requestId);
+	};
+
+	const detach = async () => {
+		if (interceptsRequests(options)) {
+			session.off('Fetch.requestPaused', onRequestPaused);
+			await session.send('Fetch.disable').catch(() => {});
+		}
+		if (Object.keys(options.headers).length > 0) {
+			await session.send('Network.setExtraHTTPHeaders', { headers: {} }).catch(() => {});
+		}
+		if (captures) {
+			await Promise.all(bodies);
+			session.off('Network.requestWillBeSent', onRequestWillBeSent);
+			session.off('Network.responseReceived', onResponseReceived);
+			session.off('Network.loadingFinished', onLoadingFinished);
+			session.off('Network.loadingFailed', onLoadingFailed);
+		}
+		log.debug('Network options removed', { blocked: report.blocked, mocked: report.mocked, captured: report.captured.length });
+		return report;
+	};
+
+	try {
+		if (Object.keys(options.headers).length > 0 || captures) {
+			await session.send('Network.enable');
+		}
+		if (Object.keys(options.headers).length > 0) {
+			await session.send('Network.setExtraHTTPHeaders', { headers: options.headers });
+		}
+		if (captures) {
+			session.on('Network.requestWillBeSent', onRequestWillBeSent);
+			session.on('Network.responseReceived', onResponseReceived);
+			session.on('Network.loadingFinished', onLoadingFinished);
+			session.on('Network.loadingFailed', onLoadingFailed);
+		}
+		if (interceptsRequests(options)) {
+			session.on('Fetch.requestPaused', onRequestPaused);
+			await session.send('Fetch.enable', { patterns: [{ urlPattern: '*', requestStage: 'Request' }] });
+		}
+	} catch (error) {
+		// Leave the page as it was when an option cannot be applied
+		await detach().catch(() => undefined);
+		throw error;
+	}
+	return detach;
+}
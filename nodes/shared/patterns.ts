@@ -0,0 +1,23 @@
+import { ApplicationError } from 'n8n-workflow';
+
+/**
+ * Match text against a pattern: "/pattern/flags" is a regular expression, whose g and y
+ * flags are ignored, anything else a case-insensitive substring. `label` names the pattern
+ * in the error thrown for an invalid regular expression.
+ */
+export function toMatcher(pattern: string, label: string): (text: string) => boolean {
+	const regex = /^\/(.+)\/([a-z]*)$/s.exec(pattern);
+	if (regex) {
+		let compiled: RegExp;
+		try {
+			// The g and y flags make test() resume from the last match, so repeated matches would alternate
+			compiled = new RegExp(regex[1], regex[2].replace(/[gy]/g, ''));
+		} catch (error) {
+			throw new ApplicationError(`Invalid ${label} ${pattern}: ${(error as Error).message}`);
+		}
+		return text => compiled.test(text);
+	}
+
+	const needle = pattern.toLowerCase();
+	return text => text.toLowerCase().includes(needle);
+}
@@ -0,0 +1,102 @@
+import { randomUUID } from 'crypto';
+import type { LogLine, Stagehand } from '@browserbasehq/stagehand';
+import { ApplicationError } from 'n8n-workflow';
+import type { Browser } from 'playwright';
+
+export type BrowserSession = {
+	id: string;
+	/** Browser-level CDP endpoint shared by every node that joins the session */
+	cdpUrl: string;
+	/** Stagehand instance bound to the browser, created by the first Stagehand node using it */
+	stagehand?: Stagehand;
+	/** Model and options the Stagehand instance was created with, which joining nodes must match */
+	stagehandSettings?: Record<string, string | number | boolean>;
+	/** Log sink for the Stagehand instance, re-pointed by the node item currently using it */
+	logger?: (line: LogLine) => void;
+	/** Playwright connection to the browser, created by the first Playwright node using it */
+	playwright?: Browser;
+	idleTimeoutMs: number;
+	timer?: NodeJS.Timeout;
+};
+
+export class SessionNotFoundError extends ApplicationError {}
+
+// Sessions live in the n8n process, so they are shared by every node and every execution
+const sessions = new Map<string, BrowserSession>();
+
+/**
+ * Register a new session for an already connected browser.
+ */
+export function createSession(
+	cdpUrl: string,
+	idleTimeoutMs: number,
+	handles: Pick<BrowserSession, 'stagehand' | 'stagehandSettings' | 'playwright'>,
+): BrowserSession {
+	const session: BrowserSession = {
+		id: randomUUID(),
+		cdpUrl,
+		idleTimeoutMs,
+		...handles,
+	};
+	sessions.set(session.id, session);
+	touchSession(session);
+
+	return session;
+}
+
+/**
+ * Get a registered session by ID.
+ */
+export function getSession(sessionId: string): BrowserSession {
+	const session = sessions.get(sessionId);
+	if (!session) {
+		throw new SessionNotFoundError(
+			`Browser session "${sessionId}" does not exist. It may have been closed or expired after being idle.`,
+		);
+	}
+
+	return session;
+}
+
+/**
+ * Mark a session as used by restarting its idle timer.
+ */
+export function touchSession(session: BrowserSession): void {
+	if (session.timer) {
+		clearTimeout(session.timer);
+	}
+	if (session.idleTimeoutMs > 0) {
+		session.timer = setTimeout(() => {
+			void closeSession(session.id);
+		}, session.idleTimeoutMs);
+		// Idle sessions must never keep the n8n process alive
+		session.timer.unref();
+	}
+}
+
+/**
+ * Close a session and every connection it holds. Closing an unknown session is a no-op.
+ */
+export async function closeSession(sessionId: string): Promise<void> {
+	const session = sessions.get(sessionId);
+	if (!session) {
+		return;
+	}
+
+	sessions.delete(sessionId);
+	if (session.timer) {
+		clearTimeout(session.timer);
+	}
+
+	// Disconnect Playwright first: closing Stagehand kills the browser if Stagehand launched it
+	try {
+		await session.playwright?.close();
+	} catch {
+		// Ignore errors from an already disconnected browser
+	}
+	try {
+		await session.stagehand?.close();
+	} catch {
+		// Ignore errors from an already disconnected browser
+	}
+}
@@ -0,0 +1,264 @@
+import type { IDisplayOptions, IExecuteFunctions, INodeProperties } from 'n8n-workflow';
+import { ApplicationError } from 'n8n-workflow';
+
+// Same format as Playwright's storage state, which can be imported as is
+export type StorageCookie = {
+	name: string;
+	value: string;
+	domain: string;
+	path: string;
+	// Seconds since the epoch, -1 for session cookies
+	expires: number;
+	httpOnly: boolean;
+	secure: boolean;
+	sameSite: 'Lax' | 'None' | 'Strict';
+};
+
+type StorageItem = {
+	name: string;
+	value: string;
+};
+
+export type OriginStorage = {
+	origin: string;
+	localStorage: StorageItem[];
+	// Not part of Playwright's format, which leaves it out
+	sessionStorage?: StorageItem[];
+};
+
+export type StorageState = {
+	cookies: StorageCookie[];
+	origins: OriginStorage[];
+};
+
+// The part of Playwright and Stagehand pages needed to read and write web storage
+type StoragePage = {
+	url(): string;
+	evaluate(expression: string): Promise<unknown>;
+};
+
+export type StorageBrowser = {
+	// Sends a command to the browser target of the Chrome DevTools Protocol
+	send<R>(method: string, params?: object): Promise<R>;
+	pages: StoragePage[];
+	addInitScript(source: string): Promise<void>;
+};
+
+type CdpCookie = Omit<StorageCookie, 'sameSite'> & {
+	session: boolean;
+	sameSite?: StorageCookie['sameSite'];
+};
+
+// Reads the web storage of the page's origin
+const READ_STORAGE = `(() => {
+	const read = (area) => Object.keys(area).map((name) => ({ name, value: area.getItem(name) }));
+	return { origin: location.origin, localStorage: read(localStorage), sessionStorage: read(sessionStorage) };
+})()`;
+
+/**
+ * Parameters to import a storage state before the node navigates.
+ */
+export function getStorageStateImportProperties(displayOptions: IDisplayOptions): INodeProperties[] {
+	const showFor = (source: string): IDisplayOptions => ({
+		...displayOptions,
+		show: {
+			...displayOptions.show,
+			importStorageState: [source],
+		},
+	});
+
+	return [
+		{
+			displayName: 'Import Storage State',
+			name: 'importStorageState',
+			type: 'options',
+			options: [
+				{
+					name: 'None',
+					value: 'none',
+				},
+				{
+					name: 'From JSON',
+					value: 'json',
+					description: 'Storage state given as JSON, e.g. from the output of an export',
+				},
+				{
+					name: 'From Binary File',
+					value: 'binary',
+					description: 'Storage state in a JSON file of the input item',
+				},
+			],
+			default: 'none',
+			description:
+				'Cookies and web storage to restore before navigating, e.g. to reuse a login. Web storage items the page already has are kept.',
+			displayOptions,
+		},
+		{
+			displayName: 'Storage State',
+			name: 'storageState',
+			type: 'json',
+			default: '',
+			placeholder: 'e.g. {{ $json.storageState }}',
+			description: 'Storage state with cookies and origins, as exported by the Playwright node or Playwright itself',
+			required: true,
+			displayOptions: showFor('json'),
+		},
+		{
+			displayName: 'Input Binary Field',
+			name: 'storageStateBinaryProperty',
+			type: 'string',
+			default: 'storageState',
+			description: 'Name of the binary field of the input item holding the storage state file',
+			required: true,
+			displayOptions: showFor('binary'),
+		},
+	];
+}
+
+/**
+ * Check a storage state given as JSON or, through an expression, as an object.
+ */
+export function parseStorageState(value: unknown): StorageState {
+	let state = value;
+	if (typeof state === 'string') {
+		try {
+			state = JSON.parse(state);
+		} catch (error) {
+			throw new ApplicationError(`Invalid storage state: ${(error as Error).message}`);
+		}
+	}
+	if (typeof state !== 'object' || state === null || Array.isArray(state)) {
+		throw new ApplicationError('Invalid storage state: it must be an object with cookies and origins');
+	}
+
+	const { cookies = [], origins = [] } = state as Partial<StorageState>;
+	if (!Array.isArray(cookies) || !Array.isArray(origins)) {
+		throw new ApplicationError('Invalid storage state: cookies and origins must be arrays');
+	}
+	for (const origin of origins) {
+		if (typeof origin?.origin !== 'string' || !URL.canParse(origin.origin)) {
+			throw new ApplicationError('Invalid storage state: every origin needs an origin URL');
+		}
+	}
+	return { cookies, origins };
+}
+
+/**
+ * Read the storage state an item imports, or undefined when it imports none.
+ */
+export async function getStorageStateImport(
+	this: IExecuteFunctions,
+	itemIndex: number,
+): Promise<StorageState | undefined> {
+	const source = this.getNodeParameter('importStorageState', itemIndex, 'none') as string;
+	if (source === 'json') {
+		return parseStorageState(this.getNodeParameter('storageState', itemIndex));
+	}
+	if (source === 'binary') {
+		const property = this.getNodeParameter('storageStateBinaryProperty', itemIndex) as string;
+		this.helpers.assertBinaryData(itemIndex, property);
+		const data = await this.helpers.getBinaryDataBuffer(itemIndex, property);
+		return parseStorageState(data.toString('utf8'));
+	}
+	return undefined;
+}
+
+/**
+ * Split a comma-separated list of domains to filter a storage state by.
+ */
+export function toDomains(list: string): string[] {
+	return list
+		.split(',')
+		.map((domain) => domain.trim().toLowerCase().replace(/^\./, ''))
+		.filter(Boolean);
+}
+
+function isSubdomain(host: string, domain: string): boolean {
+	return host === domain || host.endsWith(`.${domain}`);
+}
+
+/**
+ * Export the cookies of the browser and the web storage of the origins of its open pages.
+ * With `domains`, only cookies sent to them or their subdomains and their origins are kept.
+ */
+export async function exportStorageState(browser: StorageBrowser, domains: string[] = []): Promise<StorageState> {
+	const { cookies } = await browser.send<{ cookies: CdpCookie[] }>('Storage.getCookies');
+	const origins = new Map<string, OriginStorage>();
+	for (const page of browser.pages) {
+		if (!/^https?:/.test(page.url())) {
+			continue;
+		}
+		// Pages still loading or closing may not answer
+		const storage = (await page.evaluate(READ_STORAGE).catch(() => undefined)) as OriginStorage | undefined;
+		if (storage && !origins.has(storage.origin)) {
+			origins.set(storage.origin, storage);
+		}
+	}
+
+	const keepCookie = (cookie: CdpCookie) => {
+		const host = cookie.domain.toLowerCase().replace(/^\./, '');
+		// Cookies of parent domains are sent to the domain too
+		return domains.some((domain) => isSubdomain(host, domain) || isSubdomain(domain, host));
+	};
+	const keepOrigin = (origin: string) =>
+		domains.some((domain) => isSubdomain(new URL(origin).hostname.toLowerCase(), domain));
+
+	return {
+		cookies: cookies
+			.filter((cookie) => domains.length === 0 || keepCookie(cookie))
+			.map(({ name, value, domain, path, expires, session, httpOnly, secure, sameSite }) => ({
+				name,
+				value,
+				domain,
+				path,
+				expires: session ? -1 : expires,
+				httpOnly,
+				secure,
+				sameSite: sameSite ?? 'Lax',
+			})),
+		origins: [...origins.values()].filter(({ origin }) => domains.length === 0 || keepOrigin(origin)),
+	};
+}
+
+/**
+ * Import a storage state: cookies are set in the browser, web storage is written to the
+ * matching open pages and, through an init script, to pages loaded while the node is
+ * connected. Web storage items a page already has are kept.
+ */
+export async function importStorageState(
+	browser: StorageBrowser,
+	state: StorageState,
+): Promise<{ cookies: number; origins: number }> {
+	if (state.cookies.length > 0) {
+		await browser.send('Storage.setCookies', {
+			cookies: state.cookies.map(({ expires, ...cookie }) => ({
+				...cookie,
+				...(expires > 0 ? { expires } : {}),
+			})),
+		});
+	}
+
+	if (state.origins.length > 0) {
+		const origins = Object.fromEntries(
+			state.origins.map(({ origin, localStorage, sessionStorage }) => [
+				new URL(origin).origin,
+				{ localStorage, sessionStorage: sessionStorage ?? [] },
+			]),
+		);
+		const writeStorage = `(() => {
+	const entry = ${JSON.stringify(origins)}[location.origin];
+	if (!entry) return;
+	for (const [area, items] of [[localStorage, entry.localStorage], [sessionStorage, entry.sessionStorage]]) {
+		for (const { name, value } of items) {
+			if (area.getItem(name) === null) area.setItem(name, value);
+		}
+	}
+})()`;
+		await browser.addInitScript(`try { ${writeStorage} } catch {}`);
+		for (const page of browser.pages) {
+			await page.evaluate(writeStorage).catch(() => undefined);
+		}
+	}
+
+	return { cookies: state.cookies.length, origins: state.origins.length };
+}
@@ -0,0 +1,165 @@
+import type { IDisplayOptions, IExecuteFunctions, INodeProperties } from 'n8n-workflow';
+import { ApplicationError } from 'n8n-workflow';
+import { toMatcher } from './patterns';
+
+export type TabSelection = {
+	selectBy: 'first' | 'index' | 'latest' | 'match' | 'new';
+	index: number;
+	pattern: string;
+};
+
+export type Tab = {
+	index: number;
+	url: string;
+	title: string;
+	// Whether the node worked on this tab
+	active: boolean;
+};
+
+// The part of Playwright and Stagehand pages needed to pick and list tabs
+type TabPage = {
+	url(): string;
+	title(): Promise<string>;
+};
+
+/**
+ * Parameters to pick the tab a node works on.
+ */
+export function getTabProperties(hide: IDisplayOptions['hide'] = {}): INodeProperties[] {
+	return [
+		{
+			displayName: 'Tab',
+			name: 'tab',
+			type: 'options',
+			options: [
+				{
+					name: 'By Index',
+					value: 'index',
+					description: 'Tab at a position, in the order the tabs were opened',
+				},
+				{
+					name: 'By URL or Title',
+					value: 'match',
+					description: 'First tab whose URL or title matches a pattern',
+				},
+				{
+					name: 'First Tab',
+					value: 'first',
+					description: 'Tab opened first, usually the one the browser started with',
+				},
+				{
+					name: 'Most Recently Opened',
+					value: 'latest',
+					description: 'Tab opened last, e.g. a popup or a link opened in a new tab',
+				},
+				{
+					name: 'New Tab',
+					value: 'new',
+					description: 'Open a new tab to work on',
+				},
+			],
+			default: 'first',
+			description: 'Browser tab to work on',
+			displayOptions: {
+				hide,
+			},
+		},
+		{
+			displayName: 'Tab Index',
+			name: 'tabIndex',
+			type: 'number',
+			default: 0,
+			description: 'Position of the tab, starting at 0. Negative positions count from the last tab.',
+			displayOptions: {
+				show: {
+					tab: ['index'],
+				},
+				hide,
+			},
+		},
+		{
+			displayName: 'Tab URL or Title',
+			name: 'tabPattern',
+			type: 'string',
+			default: '',
+			placeholder: 'e.g. checkout or /\\/orders\\/\\d+/',
+			description:
+				'Text the URL or title of the tab contains (case-insensitive), or a regular expression between slashes',
+			required: true,
+			displayOptions: {
+				show: {
+					tab: ['match'],
+				},
+				hide,
+			},
+		},
+	];
+}
+
+/**
+ * Read the tab an item works on.
+ */
+export function getTabSelection(this: IExecuteFunctions, itemIndex: number): TabSelection {
+	return {
+		selectBy: this.getNodeParameter('tab', itemIndex, 'first') as TabSelection['selectBy'],
+		index: this.getNodeParameter('tabIndex', itemIndex, 0) as number,
+		pattern: this.getNodeParameter('tabPattern', itemIndex, '') as string,
+	};
+}
+
+/**
+ * Pick a tab from the open pages, oldest first. `openTab` opens a new one, for the
+ * "new" selection or when the browser has no tab at all.
+ */
+export async function selectTab<T extends TabPage>(
+	pages: T[],
+	selection: TabSelection,
+	openTab: () => Promise<T>,
+): Promise<T> {
+	if (selection.selectBy === 'new' || pages.length === 0) {
+		return await openTab();
+	}
+
+	switch (selection.selectBy) {
+		case 'index': {
+			const index = selection.index < 0 ? pages.length + selection.index : selection.index;
+			if (index < 0 || index >= pages.length) {
+				throw new ApplicationError(
+					`Tab index ${selection.index} is out of range, there are ${pages.length} tabs`,
+				);
+			}
+			return pages[index];
+		}
+
+		case 'latest':
+			return pages[pages.length - 1];
+
+		case 'match': {
+			const matches = toMatcher(selection.pattern, 'tab pattern');
+			for (const page of pages) {
+				if (matches(page.url()) || matches(await page.title())) {
+					return page;
+				}
+			}
+			throw new ApplicationError(`No tab has a URL or title matching "${selection.pattern}"`);
+		}
+
+		default:
+			return pages[0];
+	}
+}
+
+/**
+ * List the open tabs, oldest first, marking the one the node worked on.
+ */
+export async function listTabs(pages: TabPage[], active?: TabPage): Promise<Tab[]> {
+	return await Promise.all(
+		pages.map(async (page, index) => ({
+			index,
+			url: page.url(),
+			// Pages still loading or closing may not answer
+			title: await page.title().catch(() => ''),
+			active: page === active,
+		})),
+	);
+}